@@ -1,6 +1,29 @@
-import { CliExecutor, CliSuggestor, CliStackItem } from ".";
-import { CliListener } from "./CliListener";
+import { CliExecutor, CliSuggestor, CliStackItem, CliExecutionContext, CliMatchState, CliMiddleware } from ".";
+import { CliListener, CliListenerOptions } from "./CliListener";
+import { CliArgumentError } from "./arguments";
+import { findCommand, formatHelpTree, formatCommandName } from "./help";
+import { CliServer, CliServerOptions } from "./CliServer";
+import { CliHistory } from "./history";
+import { CliFormatted, CliOutputMode, CliRenderer, DEFAULT_RENDERERS, table } from "./renderers";
+import { tokenize, quoteToken, splitOperators } from "./tokenizer";
+import { CliBatchOptions, CliBatchResult, readCommands } from "./batch";
+import { CliAliases } from "./aliases";
+import { CliIdentity } from "./permissions";
+import { CliAbortError } from "./abort";
+import { CliJob, CliJobs } from "./jobs";
+import { CliOutput, CliMaskableOutput } from "./output";
+import { CliVariables } from "./variables";
+import { toItems, fromItems, itemText, pickPath, compareValues } from "./filters";
+import { CliPlugin, CliPluginError, CliLoadedPlugin, isPlugin } from "./plugins";
+import { LISTENER_KEY } from "./helpers";
+import { 
+  CliChoice, CliConfirmOptions, CliPasswordOptions, CliNumberOptions, CliSelectOptions, CliMultiSelectOptions,
+  toChoices, formatChoices, parseConfirm, parseNumber, parseSelection, parseMultiSelection,
+} from "./prompts";
+import fs from 'fs';
+import path from 'path';
 import readline from 'readline';
+import util from 'util';
 
 export interface CliHelperOptions { 
   /**
@@ -8,38 +31,291 @@ export interface CliHelperOptions {
    */
   onNoMatch: CliExecutor, 
   /**
-   * Enable suggestion with `tab` key for this instance. Suggestions does **not work** with `RegExp` based listeners.
+   * Enable suggestion with `tab` key for this instance. The word before the cursor is completed
+   * with sub-commands, suggestor values and options. `RegExp` based listeners are suggested through their `examples` option.
    */
   suggestions?: boolean, 
   /**
    * If no command matches, you can specify here a function to call to return suggestions from user entry.
    */
   onSuggest?: CliSuggestor,
+  /**
+   * Functions called around the executor of every command (see `.addMiddleware()`).
+   * Middlewares are shared with sessions.
+   */
+  middlewares?: CliMiddleware[],
   /**
    * Function to call when CLI is closed (for example, with CTRL+C).
    * 
-   * Default to
-   * ```
-   * () => console.log("Goodbye.")
-   * ```
+   * Default to writing `Goodbye.` to the `output` stream, except in batch mode.
    */
   onCliClose?: () => void,
   /**
    * Function to call when a listener throw something or return an `Error` object.
    * If the command listener throw something that is **not** an `Error`, it is wrapped inside one.
    * 
-   * Default to
-   * ```
-   * error => console.warn(`Error encountered in CLI: ${error.message} (${error.stack})`)
-   * ```
+   * When arguments given to a command does not match its spec, a `CliArgumentError` is given.
+   * 
+   * Default to writing the error to the `errorOutput` stream: its message for argument errors
+   * (with the usage of the command) and cancellations, its message and stack otherwise.
    */
   onCliError?: (error: Error) => void,
+  /**
+   * Register the built-in `help [path...]` command, that shows the tree of registered commands
+   * (with their description and usage). If you register a `help` command yourself, it replaces the built-in one.
+   * 
+   * Default to `true`.
+   */
+  help?: boolean,
+  /**
+   * Built-in commands to register: `true` for all of them, `false` for none, or an array of names
+   * (`help`, `history`, `output`, `source`, `alias`, `unalias`, `jobs`, `fg`, `kill`, `wait`, `enter`, `set`, `unset`, `vars`)
+   * and filters (`grep`, `head`, `count`, `sort`, `pick`).
+   * A command you register with the same name replaces the built-in one.
+   * 
+   * Default to `true`.
+   */
+  builtins?: boolean | string[],
+  /**
+   * File where entered lines are saved, to keep history between restarts.
+   * If not set, history is lost when the CLI is closed.
+   * 
+   * Sessions do not inherit it, nor the other history options: they need them in their own options.
+   */
+  historyFile?: string,
+  /**
+   * Maximum number of history entries. Default to `100`.
+   */
+  historySize?: number,
+  /**
+   * Remove older history entries equal to a newly entered line. Default to `false`.
+   */
+  historyIgnoreDuplicates?: boolean,
+  /**
+   * Never bind the instance to `process.stdin`/`process.stdout`: `.listen()` is not available,
+   * commands are run with `.execute()`, and `.question()` is answered by {onQuestion}.
+   * 
+   * Default to `false`.
+   */
+  headless?: boolean,
+  /**
+   * Function that answers to `.question()` calls in `headless` mode.
+   * If not set, questions asked in `headless` mode are rejected.
+   */
+  onQuestion?: (question: string) => string | Promise<string>,
+  /**
+   * Stream to read user input from. Default to `process.stdin`.
+   */
+  input?: NodeJS.ReadableStream,
+  /**
+   * Stream where prompt and results are written. Default to `process.stdout`.
+   */
+  output?: NodeJS.WritableStream,
+  /**
+   * Stream where errors are written by the default `onCliError` handler.
+   * Default to `process.stderr` if {output} is not set, {output} otherwise.
+   */
+  errorOutput?: NodeJS.WritableStream,
+  /**
+   * Treat {input}/{output} as a TTY (enables line editing and tab completion).
+   * Default to `output.isTTY`.
+   */
+  terminal?: boolean,
+  /**
+   * Call `process.exit(0)` when the CLI is closed.
+   * 
+   * Default to `true` if {input} is `process.stdin`, `false` otherwise:
+   * closing a CLI with custom streams never stops the host application.
+   */
+  exitOnClose?: boolean,
+  /**
+   * How results are written: `text` for humans (tables, trees...), `json` for scripts.
+   * Can be changed with the built-in `output` command, or for one line by ending it with `--json`.
+   * 
+   * Default to `text`.
+   */
+  outputMode?: CliOutputMode,
+  /**
+   * Run `.listen()` in batch mode: commands are read from input and executed in order, without prompt.
+   * When input ends, the process exits with code `1` if a command failed, `0` otherwise (see {exitOnClose}).
+   * 
+   * Default to `true` if input is `process.stdin` and is not a TTY (piped input), unless the CLI is `headless`.
+   */
+  batch?: boolean,
+  /**
+   * In batch mode, stop at the first failing command. Default to `false`.
+   */
+  stopOnError?: boolean,
+  /**
+   * JSON file where aliases defined with the `alias` built-in are saved, to keep them between restarts.
+   * 
+   * Sessions do not use it: each one has its own aliases, in memory.
+   */
+  aliasFile?: string,
+  /**
+   * Let the built-in `source` command run files of the host.
+   * 
+   * Default to `true`. Sessions (and clients of `.serve()`) do not inherit it: they need it in their own options.
+   */
+  allowSource?: boolean,
+  /**
+   * Let entered lines write results to files of the host with `> file` and `>> file`.
+   * 
+   * Default to `false`: lines with a `>` or `>>` word fail. Sessions (and clients of `.serve()`) do not inherit it.
+   */
+  allowRedirection?: boolean,
+  /**
+   * Expand `$name` and `${name}` references to variables in entered lines.
+   * 
+   * Default to `true`.
+   */
+  expandVariables?: boolean,
+  /**
+   * Expand references to variables that are not defined (`$HOME`) with environment variables.
+   * 
+   * Default to `false`: references to undefined variables are kept as-is.
+   */
+  envVariables?: boolean,
+  /**
+   * Who uses the CLI. Commands that require `roles` or `permissions` this identity does not have
+   * are denied, and hidden from completion and help.
+   * 
+   * Sessions inherit it, unless they are given their own.
+   */
+  identity?: CliIdentity,
+  /**
+   * Maximum execution time of every command, in milliseconds. Commands can set their own with the `timeout` option.
+   * When it is exceeded, the command is aborted with a `CliAbortError` and the prompt comes back.
+   * 
+   * Default to no timeout.
+   */
+  timeout?: number,
+}
+
+/**
+ * Options of a session created with `.createSession()`.
+ */
+export type CliSessionOptions = Pick<CliHelperOptions, 'input' | 'output' | 'errorOutput' | 'terminal' | 'exitOnClose' | 'onCliClose' | 'onCliError' | 'onQuestion' | 'batch' | 'identity' | 'historyFile' | 'historySize' | 'historyIgnoreDuplicates' | 'allowSource' | 'allowRedirection'>;
+
+export interface CliExecuteOptions {
+  /**
+   * Called with the result of each executed command, in order.
+   * A line can execute multiple commands when it uses an alias that contains multiple commands.
+   */
+  onResult?: (result: CliExecutionResult) => void;
+  /**
+   * Cancel the execution when this signal is aborted.
+   */
+  signal?: AbortSignal;
+  /**
+   * Called with each value yielded by executors that return an async iterable, as soon as it is yielded,
+   * and the output mode to write it with.
+   */
+  onItem?: (item: any, mode: CliOutputMode) => void;
+}
+
+/**
+ * Result of a line executed with `.execute()`.
+ */
+export interface CliExecutionResult {
+  /** Executed line. */
+  line: string;
+  /** Value returned by the executor. `undefined` if execution failed. */
+  value?: any;
+  /** Error thrown or returned by the executor. If something that is not an `Error` is thrown, it is wrapped inside one. */
+  error?: Error;
+  /** Matched commands until the executed listener. */
+  stack: CliStackItem[];
+  /** Execution time, in milliseconds. */
+  duration: number;
+  /** Output mode to use for this result: the one asked in the line (`--json`), then the one of the command, then the one of the CLI. */
+  outputMode: CliOutputMode;
+  /** Sub-commands close to what was typed, if the line did not match the sub-command it seemed to aim at. */
+  suggestions?: string[];
+  /** Job started by the line, if it ends with `&`. */
+  job?: CliJob;
+  /** `true` if the executor returned an async iterable: {value} is the array of yielded values, given to `onItem` one by one. */
+  streamed?: boolean;
+  /** File where {value} has been written (line ending with `> file` or `>> file`), instead of the output. */
+  redirect?: string;
 }
 
+/**
+ * Commands of a line separated by `|`, and the file its output is redirected to.
+ */
+export interface CliPipeline {
+  /** First command, then the filters its result goes through. */
+  stages: string[];
+  /** File given after `>` (or `>>`, then {append} is `true`). */
+  redirect?: { file: string, append: boolean };
+}
+
+/**
+ * How a question is asked (see `CliHelper.ask()`).
+ */
+interface CliAskOptions {
+  /** Replace typed characters by this one, on a terminal. */
+  mask?: string;
+  /** Cancel the question when this signal is aborted. */
+  signal?: AbortSignal;
+  /** Keep the answer in history, to find it with arrow keys. Default to `true`, unless {mask} is set. */
+  history?: boolean;
+}
+
+/**
+ * Built-in commands. They can be run from any scope, unless the scoped command has a sub-command with the same name.
+ */
+const BUILTINS = ['help', 'history', 'output', 'alias', 'unalias', 'source', 'jobs', 'fg', 'kill', 'wait', 'enter', 'set', 'unset', 'vars'];
+
 export default class CliHelper extends CliListener {
   protected enable_suggestions: boolean;
   protected rl_interface: readline.Interface | undefined;
+  /** Output given to readline, to hide typed secrets. */
+  protected rl_output?: CliMaskableOutput;
   protected on_question = false;
+  /** Keep the answer of the question being asked in history. */
+  protected answer_in_history = true;
+  protected headless: boolean;
+  protected question_answerer?: (question: string) => string | Promise<string>;
+  protected input: NodeJS.ReadableStream;
+  protected output: NodeJS.WritableStream;
+  protected error_output: NodeJS.WritableStream;
+  protected terminal?: boolean;
+  protected exit_on_close: boolean;
+  protected options: CliHelperOptions;
+  protected batch: boolean;
+  /** Lines entered in this CLI. */
+  readonly history: CliHistory;
+  /** How results are written by default. */
+  outputMode: CliOutputMode;
+  /**
+   * User-defined aliases, expanded before commands are matched. Each session has its own, in memory:
+   * an alias defined by a client could otherwise run commands with the rights of another user.
+   */
+  aliases: CliAliases;
+  /** Variables expanded in entered lines (`$name`). Each session has its own. */
+  readonly variables: CliVariables;
+  protected renderers: CliRenderer[] = [];
+  /** Who uses the CLI. Can be changed at any time, for example after a login command. */
+  identity?: CliIdentity;
+  /** Controllers of the running commands, aborted by `.cancel()`. */
+  protected running = new Set<AbortController>();
+  /** Lines running in the background (ended with `&`). */
+  readonly jobs = new CliJobs();
+  /** `true` while an entered line runs: the prompt is not shown. */
+  protected line_running = false;
+  /** Aborts the question being asked, if any. */
+  protected question_controller?: AbortController;
+  /** Filters usable after `|` (see `.filter()`). Shared with sessions. */
+  protected filters = new CliListener(rest => new Error(`Unknown filter "${tokenize(rest)[0]?.value ?? ''}".`));
+  /** Built-in commands registered by this CLI, by name. Shared with sessions, whatever their options. */
+  protected builtin_commands = new Map<string, CliListener>();
+  /** Plugins registered with `.use()`, by name. Shared with sessions. */
+  protected plugins = new Map<string, CliLoadedPlugin>();
+  /** Commands created for the mount paths of plugins, removed when they're empty. Shared with sessions. */
+  protected plugin_mounts: Array<{ parent: CliListener, name: string, listener: CliListener }> = [];
+  /** Path of the entered command (see `.enter()`). Lines are matched relative to it. */
+  protected scope_path: string[] = [];
   promptString:string = '>> ';
   /**
    * Build a new instance of `CliHelper`. 
@@ -50,20 +326,490 @@ export default class CliHelper extends CliListener {
    * If the returned value is static, you can specify a static `string` or `object`.
    */
   constructor(options: CliHelperOptions) {
-    super(options.onNoMatch, { onSuggest: options.onSuggest });
+    super(options.onNoMatch, { onSuggest: options.onSuggest, middlewares: options.middlewares, timeout: options.timeout });
+    this.options = options;
     this.enable_suggestions = options.suggestions ?? true;
     this.onclose = options.onCliClose ?? this.onclose;
     this.onerror = options.onCliError ?? this.onerror;
+    this.headless = options.headless ?? false;
+    this.question_answerer = options.onQuestion;
+    this.input = options.input ?? process.stdin;
+    this.output = options.output ?? process.stdout;
+    this.error_output = options.errorOutput ?? (options.output ?? process.stderr);
+    this.terminal = options.terminal;
+    this.exit_on_close = options.exitOnClose ?? this.input === process.stdin;
+    this.history = new CliHistory({
+      file: options.historyFile,
+      size: options.historySize ?? 100,
+      ignoreDuplicates: options.historyIgnoreDuplicates ?? false,
+    });
+
+    this.outputMode = options.outputMode ?? 'text';
+    this.batch = options.batch ?? (!this.headless && this.input === process.stdin && !process.stdin.isTTY);
+    this.aliases = new CliAliases(options.aliasFile);
+    this.variables = new CliVariables(options.envVariables ? process.env : undefined);
+    this.identity = options.identity;
+    this.aliases.load();
+
+    this.registerBuiltins();
+  }
+
+  protected isBuiltinEnabled(name: string) {
+    const builtins = this.options.builtins ?? true;
+
+    if (name === 'help' && this.options.help === false) {
+      return false;
+    }
+    return builtins === true || (Array.isArray(builtins) && builtins.includes(name));
+  }
+
+  /**
+   * Register the enabled built-in commands.
+   * Built-in executors use `context.cli`, so they act on the session that runs them.
+   */
+  protected registerBuiltins() {
+    if (this.isBuiltinEnabled('help')) {
+      this.command('help', (_rest, _stack, _matches, _validator_state, context) => {
+        const cli = context.cli ?? this;
+        return formatHelpTree(cli, [...cli.scope, ...context.tokens], cli.identity);
+      }, {
+        description: 'Show available commands (in the current scope), or the commands under [path]',
+        usage: '[path...]',
+      });
+    }
+
+    if (this.isBuiltinEnabled('history')) {
+      this.command('history', (_rest, _stack, _matches, _validator_state, context) => {
+        const history = (context.cli ?? this).history;
+        const { search, limit } = context.args;
+
+        let entries = history.search(search ?? '');
+        if (limit !== undefined) {
+          entries = entries.slice(-limit);
+        }
+        if (!entries.length) {
+          return search ? `No history entry contains "${search}".` : 'History is empty.';
+        }
+
+        const size = String(entries[entries.length - 1][0]).length;
+        return '\n' + entries.map(([index, line]) => `${String(index).padStart(size, ' ')}  ${line}`).join('\n');
+      }, {
+        description: 'List entered lines, or the ones containing [search]. Run one again with !<index>, the last one with !!',
+        args: {
+          positional: [{ name: 'search' }],
+          options: {
+            limit: { type: 'number', short: 'n', description: 'Only show the last <limit> entries' },
+          },
+        },
+      });
+    }
+
+    if (this.isBuiltinEnabled('output')) {
+      this.command('output', (_rest, _stack, _matches, _validator_state, context) => {
+        const cli = context.cli ?? this;
+
+        if (context.args.mode) {
+          cli.outputMode = context.args.mode;
+        }
+        return `Output mode is ${cli.outputMode}.`;
+      }, {
+        description: 'Show or set how results are written',
+        args: {
+          positional: [{ name: 'mode', type: 'enum', choices: ['text', 'json'] }],
+        },
+      });
+    }
+
+    if (this.isBuiltinEnabled('alias')) {
+      this.command('alias', async (rest, _stack, _matches, _validator_state, context) => {
+        const aliases = (context.cli ?? this).aliases;
+        const tokens = tokenize(rest);
+
+        if (!tokens.length) {
+          const entries = aliases.entries();
+          if (!entries.length) {
+            return 'No alias defined.';
+          }
+          return '\n' + entries.map(([name, command]) => `${name} = ${command}`).join('\n');
+        }
+
+        const name = tokens[0].value;
+        let definition = tokens.slice(1);
+        if (definition[0]?.value === '=') {
+          definition = definition.slice(1);
+        }
+
+        if (!definition.length) {
+          const command = aliases.get(name);
+          return command === undefined ? new Error(`Alias ${name} does not exist.`) : `${name} = ${command}`;
+        }
+
+        // A single quoted word is the command ("get pies; get ponies"), else take it raw
+        const command = definition.length === 1 ? definition[0].value : rest.slice(definition[0].start).trim();
+        await aliases.set(name, command);
+        return `${name} = ${command}`;
+      }, {
+        description: 'List aliases, show one, or define one. $1, $2... are replaced by given words, $@ by all of them',
+        usage: '[name [= command[; command...]]]',
+      });
+    }
+
+    if (this.isBuiltinEnabled('unalias')) {
+      this.command('unalias', async (_rest, _stack, _matches, _validator_state, context) => {
+        const { name } = context.args;
+
+        if (!await (context.cli ?? this).aliases.delete(name)) {
+          return new Error(`Alias ${name} does not exist.`);
+        }
+        return `Alias ${name} removed.`;
+      }, {
+        description: 'Remove an alias',
+        args: {
+          positional: [{ name: 'name', required: true }],
+        },
+      });
+    }
+
+    if (this.isBuiltinEnabled('source')) {
+      this.command('source', async (_rest, _stack, _matches, _validator_state, context) => {
+        const cli = context.cli ?? this;
+        const { file, continue: continue_on_error } = context.args;
+
+        if (cli.options.allowSource === false) {
+          return new Error('Running files is not allowed in this session.');
+        }
+        const { failed, results } = await cli.runScript(file, { stopOnError: !continue_on_error });
+
+        if (failed) {
+          return new Error(`${failed} command(s) failed in ${file}.`);
+        }
+        return `${results.length} command(s) executed from ${file}.`;
+      }, {
+        description: 'Execute the commands of a file',
+        args: {
+          positional: [{ name: 'file', required: true }],
+          options: {
+            continue: { type: 'boolean', short: 'c', description: 'Continue when a command fails' },
+          },
+        },
+      });
+    }
+
+    if (this.isBuiltinEnabled('jobs')) {
+      this.command('jobs', (_rest, _stack, _matches, _validator_state, context) => {
+        const jobs = (context.cli ?? this).jobs;
+        const list = jobs.list();
+
+        if (!list.length) {
+          return 'No jobs.';
+        }
+
+        // Settled jobs are reported once
+        for (const job of list) {
+          if (job.state !== 'running') {
+            jobs.remove(job.id);
+          }
+        }
+
+        return table(list.map(job => ({
+          id: job.id,
+          state: job.state,
+          time: Math.round(((job.ended ?? new Date).getTime() - job.started.getTime()) / 1000) + 's',
+          command: job.line,
+        })));
+      }, {
+        description: 'List background jobs. End a line with & to run it in the background',
+      });
+    }
+
+    if (this.isBuiltinEnabled('fg')) {
+      this.command('fg', async (_rest, _stack, _matches, _validator_state, context) => {
+        const jobs = (context.cli ?? this).jobs;
+        const { id } = context.args;
+        const job = jobs.get(id);
+
+        if (!job) {
+          return new Error(id === undefined ? 'No jobs.' : `Job ${id} does not exist.`);
+        }
+
+        // Ctrl+C kills the job, like in a shell
+        const kill = () => jobs.kill(job.id);
+        job.notify = false;
+        context.signal.addEventListener('abort', kill);
+
+        const result = await job.promise;
+        context.signal.removeEventListener('abort', kill);
+        jobs.remove(job.id);
+
+        return result.error ?? result.value;
+      }, {
+        description: 'Wait for a background job (default to the last one) and show its result. Ctrl+C kills it',
+        args: {
+          positional: [{ name: 'id', type: 'number' }],
+        },
+      });
+    }
+
+    if (this.isBuiltinEnabled('kill')) {
+      this.command('kill', (_rest, _stack, _matches, _validator_state, context) => {
+        const { id } = context.args;
+
+        if (!(context.cli ?? this).jobs.kill(id)) {
+          return new Error(`Job ${id} is not running.`);
+        }
+        return `Job ${id} killed.`;
+      }, {
+        description: 'Cancel a background job',
+        args: {
+          positional: [{ name: 'id', type: 'number', required: true }],
+        },
+      });
+    }
+
+    if (this.isBuiltinEnabled('wait')) {
+      this.command('wait', async (_rest, _stack, _matches, _validator_state, context) => {
+        const { id } = context.args;
+        const jobs = await (context.cli ?? this).jobs.wait(id === undefined ? undefined : [id]);
+
+        if (!jobs.length) {
+          return id === undefined ? 'No jobs.' : new Error(`Job ${id} does not exist.`);
+        }
+
+        return table(jobs.map(job => {
+          const last = job.results[job.results.length - 1];
+
+          return {
+            id: job.id,
+            state: job.state,
+            command: job.line,
+            result: last?.error ? last.error.message : last?.value,
+          };
+        }));
+      }, {
+        description: 'Wait for a background job, or for all of them, and show their results',
+        args: {
+          positional: [{ name: 'id', type: 'number' }],
+        },
+      });
+    }
+
+    if (this.isBuiltinEnabled('enter')) {
+      this.command('enter', (_rest, _stack, _matches, _validator_state, context) => {
+        const cli = context.cli ?? this;
+
+        if (!cli.enter(context.tokens)) {
+          return new Error(`No command found for "${context.tokens.join(' ')}".`);
+        }
+      }, {
+        description: 'Enter a command: next lines are matched relative to it. Leave with .., exit, or / to go back to the root',
+        usage: '<path...>',
+      });
+    }
+
+    if (this.isBuiltinEnabled('set')) {
+      this.command('set', (_rest, _stack, _matches, _validator_state, context) => {
+        let [name, ...value] = context.tokens;
+        if (value[0] === '=') {
+          value = value.slice(1);
+        }
+
+        if (name === undefined || !value.length) {
+          return new Error('Usage: set <name> [=] <value...>');
+        }
+        (context.cli ?? this).variables.set(name, value.join(' '));
+      }, {
+        description: 'Define a variable, expanded in next lines with $name or ${name}. $_ is the result of the last command',
+        usage: '<name> [=] <value...>',
+      });
+    }
+
+    if (this.isBuiltinEnabled('unset')) {
+      this.command('unset', (_rest, _stack, _matches, _validator_state, context) => {
+        const { name } = context.args;
+
+        if (!(context.cli ?? this).variables.delete(name)) {
+          return new Error(`Variable ${name} is not defined.`);
+        }
+      }, {
+        description: 'Remove a variable',
+        args: {
+          positional: [{ name: 'name', required: true }],
+        },
+      });
+    }
+
+    if (this.isBuiltinEnabled('vars')) {
+      this.command('vars', (_rest, _stack, _matches, _validator_state, context) => {
+        const entries = (context.cli ?? this).variables.entries();
+
+        if (!entries.length) {
+          return 'No variable defined.';
+        }
+        return table(entries.map(([name, value]) => ({ name, value: typeof value === 'string' ? value : JSON.stringify(value) })));
+      }, {
+        description: 'List defined variables',
+      });
+    }
+
+    if (this.isBuiltinEnabled('grep')) {
+      this.filter('grep', (_rest, _stack, _matches, _validator_state, context) => {
+        const { pattern, invert } = context.args;
+        let regex: RegExp;
+
+        try {
+          regex = new RegExp(pattern, context.args['ignore-case'] ? 'i' : '');
+        } catch (e) {
+          return new Error(`Invalid pattern "${pattern}".`);
+        }
+        return fromItems(context.input, toItems(context.input).filter(item => regex.test(itemText(item)) !== !!invert));
+      }, {
+        description: 'Keep the lines (or items, rows) that match <pattern>, a regular expression',
+        args: {
+          positional: [{ name: 'pattern', required: true }],
+          options: {
+            'ignore-case': { type: 'boolean', short: 'i', description: 'Ignore case' },
+            invert: { type: 'boolean', short: 'v', description: 'Keep the ones that do not match' },
+          },
+        },
+      });
+    }
+
+    if (this.isBuiltinEnabled('head')) {
+      this.filter('head', (_rest, _stack, _matches, _validator_state, context) => {
+        return fromItems(context.input, toItems(context.input).slice(0, Math.max(0, context.args.lines)));
+      }, {
+        description: 'Keep the first lines (or items, rows)',
+        args: {
+          options: {
+            lines: { type: 'number', short: 'n', default: 10, description: 'Number of lines to keep' },
+          },
+        },
+      });
+    }
+
+    if (this.isBuiltinEnabled('count')) {
+      this.filter('count', (_rest, _stack, _matches, _validator_state, context) => toItems(context.input).length, {
+        description: 'Count the lines (or items, rows)',
+        args: {},
+      });
+    }
+
+    if (this.isBuiltinEnabled('sort')) {
+      this.filter('sort', (_rest, _stack, _matches, _validator_state, context) => {
+        const { field, reverse } = context.args;
+        const key = (item: any) => field === undefined ? item : pickPath(item, field);
+        const items = [...toItems(context.input)].sort((a, b) => compareValues(key(a), key(b)) * (reverse ? -1 : 1));
+
+        return fromItems(context.input, items);
+      }, {
+        description: 'Sort the lines (or items, rows), or the items by their [field]',
+        args: {
+          positional: [{ name: 'field' }],
+          options: {
+            reverse: { type: 'boolean', short: 'r', description: 'Sort in descending order' },
+          },
+        },
+      });
+    }
+
+    if (this.isBuiltinEnabled('pick')) {
+      this.filter('pick', (_rest, _stack, _matches, _validator_state, context) => {
+        const paths: string[] = context.args.paths;
+        const input = context.input;
+        const pick = (item: any) => paths.length === 1 ?
+          pickPath(item, paths[0]) :
+          Object.fromEntries(paths.map(path => [path.replace(/^\./, ''), pickPath(item, path)]));
+
+        if (typeof input === 'string') {
+          return new Error('pick reads objects, not text.');
+        }
+        if (Array.isArray(input) || (input instanceof CliFormatted && Array.isArray(input.data))) {
+          const items = toItems(input).map(pick);
+          return input instanceof CliFormatted && paths.length > 1 ? table(items) : items;
+        }
+        return pick(input instanceof CliFormatted ? input.data : input);
+      }, {
+        description: 'Keep fields of the object (or of each item): .user.name, items[0].id...',
+        args: {
+          positional: [{ name: 'paths', type: 'list', required: true }],
+        },
+      });
+    }
+
+    for (const name of BUILTINS) {
+      const registered = this.isBuiltinEnabled(name) && this.getSubCommand(name, true);
+
+      if (registered) {
+        this.builtin_commands.set(name, registered.listener);
+      }
+    }
+  }
+
+  /**
+   * Tell if {name} runs a built-in command (not replaced by a user command since).
+   */
+  protected isBuiltin(name: string) {
+    const listener = this.builtin_commands.get(name);
+    return !!listener && this.getSubCommand(name, true)?.listener === listener;
   }
 
   public onclose = () => {
-    console.log('Goodbye.');
+    if (!this.batch) {
+      this.print('Goodbye.');
+    }
   };
 
   public onerror = (error: Error) => {
-    console.warn(`Error encountered in CLI: ${error.message} (${error.stack})`);
+    if (error instanceof CliArgumentError) {
+      this.printError(`Invalid arguments: ${error.message}` + (error.usage ? `\nUsage: ${error.usage}` : ''));
+      return;
+    }
+    if (error instanceof CliAbortError) {
+      this.printError(error.message);
+      return;
+    }
+    this.printError(`Error encountered in CLI: ${error.message} (${error.stack})`);
   };
 
+  /**
+   * Write {data} to the output of the CLI, formatted like `console.log` does.
+   */
+  print(...data: any[]) {
+    this.output.write(util.format(...data as [any, ...any[]]) + '\n');
+  }
+
+  /**
+   * Call {write} to print things while the prompt is shown (like background jobs results):
+   * the line being typed is cleared, then written again below.
+   */
+  protected printAbovePrompt(write: () => void) {
+    const rl = this.rl_interface;
+
+    if (!rl || !this.isTerminal() || this.line_running || this.on_question) {
+      write();
+      return;
+    }
+
+    readline.clearLine(this.output, 0);
+    readline.cursorTo(this.output, 0);
+    write();
+    rl.prompt(true);
+  }
+
+  /**
+   * `true` if input and output are treated as a TTY: the `terminal` option, or `output.isTTY` if it is not set.
+   */
+  protected isTerminal() {
+    return this.terminal ?? ('isTTY' in this.output && this.output.isTTY === true);
+  }
+
+  /**
+   * Write {data} to the error output of the CLI, formatted like `console.warn` does.
+   */
+  printError(...data: any[]) {
+    this.error_output.write(util.format(...data as [any, ...any[]]) + '\n');
+  }
+
   static formatHelp(title: string, options: {
     commands: {
       [name: string]: string
@@ -86,9 +832,9 @@ export default class CliHelper extends CliListener {
     const content = entries.map(e => `${PAD_START}${e[0]}${e[1]}`).join('\n');
 
     return (options.onNoMatch ? 
-      (rest: string, stack: CliStackItem[]) => {
+      (rest: string, stack: CliStackItem[], matches: RegExpMatchArray | null, validator_state: boolean | undefined, context: CliExecutionContext) => {
         if (rest.trim()) {
-          return typeof options.onNoMatch === 'function' ? options.onNoMatch(rest, stack, null) : options.onNoMatch;
+          return typeof options.onNoMatch === 'function' ? options.onNoMatch(rest, stack, matches, validator_state, context) : options.onNoMatch;
         }
         return `\n${title}\n${content}`;  
       } : 
@@ -97,30 +843,58 @@ export default class CliHelper extends CliListener {
   }
 
   protected initReadline() {
+    this.history.load();
+
+    const output = new CliMaskableOutput(this.output);
     const rl = readline.createInterface({
-      input: process.stdin,
-      output: process.stdout,
-      prompt: this.promptString,
+      input: this.input,
+      output,
+      terminal: this.isTerminal(),
+      prompt: this.currentPrompt(),
+      // readline keeps its history most recent first
+      history: [...this.history.entries].reverse(),
+      historySize: this.options.historySize ?? 100,
+      removeHistoryDuplicates: this.options.historyIgnoreDuplicates ?? false,
       completer: this.enable_suggestions ? (line: string, callback: (err: any, value?: [string[], string]) => void) => {
-        if (buffer) {
-          // todo: complete when line is incomplete
-          return [[], line];
-        }
-
-        this.getSuggests(line, [])
-          .then(s => {
-            callback(
-              null, 
-              [s[0].filter(e => e.startsWith(line) && e.length > line.length), s[1]]
-            );
+        // Complete the word before the cursor, with the previous continued lines
+        this.getSuggests(this.resolveScope(buffer + line), [], this.identity)
+          .then(([candidates, word]) => {
+            if (word.length > line.length) {
+              // Word started on a previous line, it can't be replaced
+              callback(null, [[], line]);
+              return;
+            }
+            callback(null, [candidates, word]);
           })
           .catch(callback);
       } : undefined,
     });
 
     this.rl_interface = rl;
+    this.rl_output = output;
     let buffer = '';
 
+    rl.on('history', history => {
+      if (history[0] !== rl.line) {
+        return;
+      }
+      // Hidden answers must not be found with arrow keys
+      if (this.on_question && !this.answer_in_history) {
+        history.shift();
+        return;
+      }
+      if (buffer || this.on_question) {
+        return;
+      }
+
+      // Remember the real command instead of !n
+      try {
+        history[0] = this.history.expand(rl.line);
+      } catch (e) {
+        // The error is shown when the line is executed
+      }
+    });
+
     rl.on('line', async line => {
       if (this.on_question) {
         return;
@@ -135,65 +909,1080 @@ export default class CliHelper extends CliListener {
 
       if (line.endsWith('\\')) {
         buffer = line.slice(0, line.length - 1) + ' ';
-        process.stdout.write('+ ');
+        this.output.write('+ ');
         return;
       }
 
-      let returned: any;
+      let expanded: string;
       try {
-        returned = await this.match(line.trim(), [], null);
+        expanded = this.history.expand(line);
       } catch (e) {
-        if (e instanceof Error) {
-          returned = e;
-        }
-        else {
-          returned = new Error(e as any);
-        }
+        this.printError((e as Error).message);
+        buffer = "";
+        rl.prompt();
+        return;
       }
 
-      if (typeof returned === 'string') {
-        console.log("cli: " + returned);
-      }
-      else if (returned instanceof Error) {
-        if (this.onerror) {
-          this.onerror(returned);
-        }
-      }
-      else if (typeof returned === 'object') {
-        console.log("cli:", returned);
+      if (expanded !== line) {
+        // Show the real command instead of !n
+        this.print(expanded);
       }
 
+      this.history.add(expanded).catch(this.onerror);
+
+      this.line_running = true;
+      await this.execute(expanded, { 
+        onResult: result => this.printResult(result), 
+        onItem: (item, mode) => this.printValue(item, mode),
+      });
+      this.line_running = false;
+
       // Reprompt for user input
       buffer = "";
       rl.prompt();
+    }).on('SIGINT', () => {
+      // Ctrl+C cancels the running command, or closes the CLI if there's none
+      if (!this.cancel()) {
+        rl.close();
+      }
     }).on('close', () => {
+      this.rl_interface = undefined;
+
       if (this.onclose) {
         this.onclose();
       }
       
-      process.exit(0);
+      if (this.exit_on_close) {
+        process.exit(0);
+      }
     });
   }
 
   /**
-   * Pause the CLI, and ask a question.
+   * Create a new independent CLI that shares the commands of this instance.
+   * 
+   * The session has its own streams, prompt, question state and readline interface.
+   * Commands registered later on this instance are also available in the session.
+   */
+  createSession(options: CliSessionOptions) : CliHelper {
+    const session = new CliHelper({ 
+      ...this.options, 
+      help: false, 
+      // Sessions have their own streams, even when this instance does not
+      headless: false,
+      exitOnClose: false,
+      allowSource: false,
+      allowRedirection: false,
+      batch: false,
+      // Each session has its own history: lines of the host (and of other clients) are not shown, nor run with !n
+      historyFile: undefined,
+      historySize: undefined,
+      historyIgnoreDuplicates: undefined,
+      aliasFile: undefined,
+      ...options, 
+    });
+
+    session.listeners = this.listeners;
+    session.change_state = this.change_state;
+    session.forwarders = this.forwarders;
+    session.validator = this.validator;
+    session.args_spec = this.args_spec;
+    session.promptString = this.promptString;
+    session.renderers = this.renderers;
+    session.builtin_commands = this.builtin_commands;
+    session.middlewares = this.middlewares;
+    session.filters = this.filters;
+    session.plugins = this.plugins;
+    session.plugin_mounts = this.plugin_mounts;
+
+    return session;
+  }
+
+  /**
+   * Execute {line} like if it was entered in the CLI, without any prompt or output.
+   * 
+   * Errors are not given to the `onCliError` handler, they're returned in the result.
+   * 
+   * {line} can contain multiple commands: separated by `;` they always run, after `&&` only if the previous one succeeded,
+   * after `||` only if it failed. An alias can also contain multiple commands.
+   * The result of the last executed one is returned (see `options.onResult` to get all of them).
+   * 
+   * A cancelled or timed out command fails with a `CliAbortError`.
+   * 
+   * Variables (`$name`) are expanded in each command right before it runs: in a macro, `$_` is the result of the previous command.
+   * 
+   * If {line} ends with `&`, it is started as a background job (see `.jobs`) and this resolves right away.
+   * Results of the job are given to `options.onResult` when it settles, unless `fg` or `wait` get them.
+   */
+  async execute(line: string, options: CliExecuteOptions = {}) : Promise<CliExecutionResult> {
+    const tokens = tokenize(line);
+    const last = tokens[tokens.length - 1];
+
+    if (last && !last.quoted && last.value === '&') {
+      return this.startJob(line.slice(0, last.start).trim(), options);
+    }
+    return this.executeLine(line, options, true);
+  }
+
+  /**
+   * Execute the commands of {line} (separated by `;`, `&&` or `||`), after aliases expansion.
+   * Aliases in {seen} are not expanded again.
+   * 
+   * Only {foreground} commands are cancelled by `.cancel()`.
+   */
+  protected async executeLine(line: string, options: CliExecuteOptions, foreground: boolean, seen: Set<string> = new Set()) : Promise<CliExecutionResult> {
+    let parts = this.isAliasDefinition(line) ? [{ text: line.trim() }] : splitOperators(line.trim(), [';', '&&', '||']);
+
+    if (parts.every(e => !e.text)) {
+      parts = [{ text: '' }];
+    }
+
+    // Empty commands are only allowed around ;
+    for (let i = 0; i < parts.length && parts.length > 1; i++) {
+      const previous = parts[i - 1]?.operator;
+      const { text, operator } = parts[i];
+
+      if (!text && ((previous && previous !== ';') || (operator && operator !== ';'))) {
+        const result: CliExecutionResult = {
+          line,
+          error: new Error(previous && previous !== ';' ? `Missing command after "${previous}".` : `Missing command before "${operator}".`),
+          stack: [],
+          duration: 0,
+          outputMode: this.outputMode,
+        };
+
+        options.onResult?.(result);
+        return result;
+      }
+    }
+
+    let result: CliExecutionResult | undefined;
+
+    for (let i = 0; i < parts.length; i++) {
+      const previous = parts[i - 1]?.operator;
+      const { text } = parts[i];
+
+      if (!text && parts.length > 1) {
+        continue;
+      }
+      // Like in a shell, skipped commands keep the status of the last executed one
+      if ((previous === '&&' && result?.error) || (previous === '||' && result && !result.error)) {
+        continue;
+      }
+
+      const alias = this.aliases.expand(text, seen);
+
+      if (alias) {
+        result = await this.executeLine(alias.line, options, foreground, new Set(seen).add(alias.name));
+      }
+      else {
+        result = await this.executeCommand(text, options, foreground);
+        options.onResult?.(result);
+      }
+
+      // Ctrl+C stops the whole line
+      if (options.signal?.aborted || (result.error instanceof CliAbortError && result.error.reason === 'cancelled')) {
+        break;
+      }
+    }
+
+    return result!;
+  }
+
+  /**
+   * Start {line} as a background job.
+   */
+  protected startJob(line: string, options: CliExecuteOptions) : CliExecutionResult {
+    const on_item = options.onItem;
+    const job = this.jobs.start(line, (signal, job) => this.executeLine(line, {
+      signal,
+      onResult: result => job.results.push(result),
+      onItem: on_item && ((item, mode) => {
+        if (job.notify) {
+          this.printAbovePrompt(() => on_item(item, mode));
+        }
+      }),
+    }, false));
+
+    job.promise.then(() => {
+      if (!job.notify || !options.onResult) {
+        return;
+      }
+
+      this.printAbovePrompt(() => {
+        if (this.rl_interface || this.batch) {
+          this.print(`[${job.id}] ${job.state[0].toUpperCase() + job.state.slice(1)}: ${job.line}`);
+        }
+        job.results.forEach(options.onResult!);
+      });
+      this.jobs.remove(job.id);
+    });
+
+    const result: CliExecutionResult = {
+      line,
+      value: `[${job.id}] ${line}`,
+      stack: [],
+      duration: 0,
+      outputMode: this.outputMode,
+      job,
+    };
+
+    options.onResult?.(result);
+    return result;
+  }
+
+  /**
+   * Cancel the running commands: their executor signal is aborted, and they fail with a `CliAbortError`.
+   * The question being asked, if any, is cancelled too.
+   * 
+   * Returns `false` if no command was running.
+   */
+  cancel() {
+    const running = [...this.running];
+
+    if (this.question_controller) {
+      running.push(this.question_controller);
+    }
+    for (const controller of running) {
+      controller.abort();
+    }
+    return running.length > 0;
+  }
+
+  /**
+   * Execute a single command, after aliases expansion.
+   */
+  protected async executeCommand(line: string, options: CliExecuteOptions = {}, foreground = true) : Promise<CliExecutionResult> {
+    const { signal, onItem } = options;
+    const controller = new AbortController();
+    let state: CliMatchState = { cli: this, signal: controller.signal };
+    let redirect: CliPipeline['redirect'];
+    const start = Date.now();
+    let value: any;
+    let output_mode: CliOutputMode | undefined;
+
+    let to_match = line.trim();
+    const tokens = tokenize(to_match);
+    const last = tokens[tokens.length - 1];
+
+    if (this.scope_path.length && ['..', 'exit', '/'].includes(to_match)) {
+      this.leave(to_match === '/' ? this.scope_path.length : 1);
+      return { line, stack: [], duration: 0, outputMode: this.outputMode };
+    }
+
+    const alias_definition = this.isAliasDefinition(to_match);
+
+    // Trailing --json asks JSON output for this line only
+    if (last && !last.quoted && last.value === '--json' && !alias_definition) {
+      output_mode = 'json';
+      to_match = to_match.slice(0, last.start).trimRight();
+    }
+
+    const abort = () => controller.abort();
+    signal?.addEventListener('abort', abort);
+    if (signal?.aborted) {
+      abort();
+    }
+    if (foreground) {
+      this.running.add(controller);
+    }
+
+    try {
+      const pipeline = alias_definition ? { stages: [to_match] } : this.parsePipeline(to_match);
+      const { stages } = pipeline;
+      redirect = pipeline.redirect;
+
+      // Each filter gets the value returned by the previous stage
+      for (let i = 0; i < stages.length; i++) {
+        const stage_state: CliMatchState = { cli: this, signal: controller.signal, input: value };
+        state = stage_state;
+
+        // Yielded values are written only if they're not filtered nor redirected
+        if (onItem && i === stages.length - 1 && !redirect) {
+          stage_state.onItem = item => onItem(item, output_mode ?? stage_state.listener?.outputMode ?? this.outputMode);
+        }
+
+        value = i === 0 ? 
+          await this.match(this.expandVariables(this.resolveScope(stages[i])), [], null, stage_state) :
+          await this.filters.match(this.expandVariables(stages[i]), [], null, stage_state);
+
+        if (value instanceof Error) {
+          break;
+        }
+      }
+
+      if (redirect && !(value instanceof Error)) {
+        const rendered = this.render(value, output_mode ?? state.listener?.outputMode ?? this.outputMode) ?? '';
+        const write = redirect.append ? fs.promises.appendFile : fs.promises.writeFile;
+
+        await write(redirect.file, rendered.replace(/^\n/, '') + '\n');
+      }
+    } catch (e) {
+      value = e instanceof Error ? e : new Error(e as any);
+    } finally {
+      this.running.delete(controller);
+      signal?.removeEventListener('abort', abort);
+    }
+
+    const result: CliExecutionResult = {
+      line,
+      stack: state.stack ?? [],
+      duration: Date.now() - start,
+      outputMode: output_mode ?? state.listener?.outputMode ?? this.outputMode,
+    };
+
+    if (state.didYouMean) {
+      result.suggestions = state.didYouMean;
+    }
+    if (state.streamed) {
+      result.streamed = true;
+    }
+    if (redirect) {
+      result.redirect = redirect.file;
+    }
+
+    if (value instanceof Error) {
+      result.error = value;
+    }
+    else {
+      result.value = value;
+
+      // Keep the result of entered commands for $_
+      if (foreground && state.listener && value !== undefined) {
+        this.variables.set('_', value);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Split {line} into the commands of its pipeline (`|`) and its redirection (`> file` or `>> file`).
+   * Operators are separate words: `grep a|b` is a single command.
+   * 
+   * Throws if a part is missing, or if the line is redirected without the `allowRedirection` option.
+   */
+  protected parsePipeline(line: string) : CliPipeline {
+    const parts = splitOperators(line, ['|', '>', '>>'], true);
+    const pipeline: CliPipeline = { stages: [] };
+
+    if (parts.length === 1) {
+      return { stages: [line] };
+    }
+
+    // Do not give the redirection to the command as arguments: the user would think a file has been written
+    const redirection = parts.find(e => e.operator === '>' || e.operator === '>>');
+    if (redirection && !this.options.allowRedirection) {
+      throw new Error(`Output redirection is disabled: quote "${redirection.operator}" to give it to the command.`);
+    }
+
+    for (let i = 0; i < parts.length; i++) {
+      const { text, operator } = parts[i];
+      const previous = parts[i - 1]?.operator;
+
+      if (!text) {
+        throw new Error(previous ? 
+          `Missing ${previous === '|' ? 'filter' : 'file'} after "${previous}".` : 
+          `Missing command before "${operator}".`
+        );
+      }
+
+      if (previous === '>' || previous === '>>') {
+        const tokens = tokenize(this.expandVariables(text));
+
+        if (operator || tokens.length !== 1) {
+          throw new Error(`Expected a single file after "${previous}", at the end of the line.`);
+        }
+        pipeline.redirect = { file: tokens[0].value, append: previous === '>>' };
+      }
+      else {
+        pipeline.stages.push(text);
+      }
+    }
+
+    return pipeline;
+  }
+
+  /**
+   * Register a filter, usable after `|` in any line: `get pies | grep apple`.
+   * Its executor gets the value returned by the previous command in `context.input`.
+   * 
+   * Filters are not commands: they can only be used after `|`. Parameters are the ones of `.command()`.
+   */
+  filter(name: string | RegExp | Array<RegExp | string>, executor: CliExecutor | CliListener, options?: CliListenerOptions) {
+    return this.filters.command(name, executor, options);
+  }
+
+  /**
+   * Path of the entered command, empty at the root.
+   */
+  get scope() : string[] {
+    return [...this.scope_path];
+  }
+
+  /**
+   * Enter the command at {path} (relative to the current scope), like a sub-shell:
+   * next lines are matched relative to it, and the prompt shows its path (`database/get>> `).
+   * 
+   * Entered lines `..` and `exit` leave one level, `/` goes back to the root,
+   * and lines starting with `/` are run from the root. Built-in commands are available in every scope.
+   * 
+   * Returns `false` if there is no command at {path} that the identity of the CLI is allowed to run.
+   */
+  enter(path: string | string[]) {
+    const words = typeof path === 'string' ? tokenize(path).map(e => e.value) : path;
+    const full = [...this.scope_path, ...words];
+
+    if (!words.length || !findCommand(this, full, this.identity)) {
+      return false;
+    }
+
+    this.scope_path = full;
+    this.rl_interface?.setPrompt(this.currentPrompt());
+    return true;
+  }
+
+  /**
+   * Leave {levels} entered commands. Leaving more levels than entered goes back to the root.
+   */
+  leave(levels = 1) {
+    this.scope_path = this.scope_path.slice(0, Math.max(0, this.scope_path.length - levels));
+    this.rl_interface?.setPrompt(this.currentPrompt());
+  }
+
+  /**
+   * Prompt showing the current scope.
+   */
+  protected currentPrompt() {
+    return this.scope_path.length ? this.scope_path.join('/') + this.promptString : this.promptString;
+  }
+
+  /**
+   * Tell if {line} defines an alias with the built-in `alias` command.
+   * Its definition is kept whole: operators in it (`alias both = get pies; get ponies`) are not run.
+   */
+  protected isAliasDefinition(line: string) {
+    const [first, second] = tokenize(line);
+
+    return !!second && !first.quoted && first.value === 'alias' && this.isBuiltin('alias') && this.resolveScope(line) === line;
+  }
+
+  /**
+   * Replace the variable references of {line}, unless the `expandVariables` option turns it off.
+   */
+  protected expandVariables(line: string) {
+    return this.options.expandVariables === false ? line : this.variables.expand(line);
+  }
+
+  /**
+   * Turn {line}, entered in the current scope, into a line matched from the root.
+   */
+  protected resolveScope(line: string) {
+    if (!this.scope_path.length) {
+      return line;
+    }
+    if (line.startsWith('/')) {
+      return line.slice(1);
+    }
+
+    const first = tokenize(line)[0];
+    if (first && !first.quoted && this.isBuiltin(first.value)) {
+      const scoped = findCommand(this, this.scope_path, this.identity);
+      const shadowed = scoped?.listener.getSubCommands().some(e => e.names.includes(first.value));
+
+      if (!shadowed) {
+        return line;
+      }
+    }
+
+    return this.scope_path.map(e => quoteToken(e)).join(' ') + ' ' + line;
+  }
+
+  /**
+   * Execute the commands of {lines} in order, like if they were entered one by one.
+   * Empty lines and comments (starting with `#`) are ignored, and lines ending with `\` continue on the next one.
+   * 
+   * Results are written (see `options.print`), errors are given to `onCliError`.
+   */
+  async runLines(lines: Iterable<string> | AsyncIterable<string>, options: CliBatchOptions = {}) : Promise<CliBatchResult> {
+    const batch: CliBatchResult = { results: [], failed: 0, stopped: false, exitCode: 0 };
+    const print = options.print ?? true;
+
+    for await (const { line, number } of readCommands(lines)) {
+      const result = await this.execute(line, { 
+        onResult: result => {
+          batch.results.push(result);
+          if (print) {
+            this.printResult(result);
+          }
+        },
+        onItem: print ? (item, mode) => this.printValue(item, mode) : undefined,
+      });
+
+      if (result.error) {
+        batch.failed++;
+        batch.exitCode = 1;
+
+        if (print && result.outputMode !== 'json') {
+          this.printError(`    at ${options.name ?? 'input'}:${number}`);
+        }
+        if (options.stopOnError) {
+          batch.stopped = true;
+          break;
+        }
+      }
+    }
+
+    return batch;
+  }
+
+  /**
+   * Execute the commands of {file}, see `.runLines()`.
+   */
+  async runScript(file: string, options: CliBatchOptions = {}) : Promise<CliBatchResult> {
+    const rl = readline.createInterface({ input: fs.createReadStream(file), crlfDelay: Infinity });
+
+    try {
+      return await this.runLines(rl, { name: file, ...options });
+    } finally {
+      rl.close();
+    }
+  }
+
+  protected async listenBatch() {
+    const rl = readline.createInterface({ input: this.input, terminal: false, crlfDelay: Infinity });
+    const { exitCode } = await this.runLines(rl, { name: 'stdin', stopOnError: this.options.stopOnError });
+    rl.close();
+
+    // Let background jobs finish (and report) before leaving
+    await Promise.all(this.jobs.list().map(e => e.promise));
+
+    if (this.onclose) {
+      this.onclose();
+    }
+    if (this.exit_on_close) {
+      process.exit(exitCode);
+    }
+  }
+
+  /**
+   * Register the commands of {plugin} at its mount path, then call its `onLoad` hook.
+   * 
+   * Throws a `CliPluginError`, and registers nothing, if a plugin with the same name is already used,
+   * or if a command of the plugin, or a command created for its mount path, conflicts with one registered at the same place:
+   * the same words, or a `RegExp` that matches the other name (see `.getConflicts()`).
+   * If `onLoad` throws, its commands are removed (without calling `onUnload`) and the error is thrown.
+   */
+  async use(plugin: CliPlugin) {
+    if (this.plugins.has(plugin.name)) {
+      throw new CliPluginError(`Plugin ${plugin.name} is already used.`, plugin.name);
+    }
+
+    // Commands are registered aside first, to check conflicts before changing the tree
+    const staging = new CliListener('');
+    const commands = plugin.commands ?? [];
+
+    if (typeof commands === 'function') {
+      commands(staging, this);
+    }
+    else {
+      for (const command of commands) {
+        if ('command' in command) {
+          staging.command(command.name, new command.command()[LISTENER_KEY]);
+        }
+        else {
+          staging.command(command.name, command.executor, command.options);
+        }
+      }
+    }
+
+    const mount_path = typeof plugin.mount === 'string' ? tokenize(plugin.mount).map(e => e.value) : (plugin.mount ?? []);
+    let mount: CliListener = this;
+    let depth = 0;
+
+    for (; depth < mount_path.length; depth++) {
+      const next = mount.getSubCommand(mount_path[depth], true)?.listener;
+      if (!next) {
+        break;
+      }
+      mount = next;
+    }
+
+    // A created mount command must not shadow a sibling (like a RegExp that matches it), nor commands of the plugin
+    const new_names = depth < mount_path.length ? [mount_path[depth]] : staging.getSubCommands().flatMap(e => e.names);
+    const conflicts = new_names
+      .filter(name => mount.getConflicts(name).length)
+      .map(formatCommandName);
+
+    if (conflicts.length) {
+      const registered = mount_path.slice(0, depth);
+
+      throw new CliPluginError(
+        `Unable to use plugin ${plugin.name}: ${conflicts.map(e => `"${e}"`).join(', ')} would conflict with registered commands` + 
+          (registered.length ? ` in "${registered.join(' ')}".` : '.'),
+        plugin.name,
+        conflicts,
+      );
+    }
+
+    // Missing commands of the mount path show the help of what's under them
+    for (; depth < mount_path.length; depth++) {
+      const parent = mount;
+      const listener: CliListener = parent.command(mount_path[depth], (_rest, _stack, _matches, _validator_state, context) => {
+        return formatHelpTree(listener, [], (context.cli ?? this).identity);
+      }, { description: depth === mount_path.length - 1 ? plugin.description : undefined });
+
+      this.plugin_mounts.unshift({ parent, name: mount_path[depth], listener });
+      mount = listener;
+    }
+
+    const registered = staging.getSubCommands().map(({ names, listener }) => {
+      staging.removeCommand(names[0]);
+      mount.command(names, listener, { middlewares: plugin.middlewares });
+      return { names, listener };
+    });
+
+    this.plugins.set(plugin.name, { plugin, mount, commands: registered });
+    try {
+      await plugin.onLoad?.(this);
+    } catch (e) {
+      this.unregisterPlugin(plugin.name);
+      throw e;
+    }
+
+    return this;
+  }
+
+  /**
+   * Remove the commands registered by plugin {name}, then call its `onUnload` hook. Commands that have been replaced since are kept.
+   * Commands created for mount paths are removed when no plugin uses them anymore.
+   * 
+   * Returns `false` if the plugin is not used.
+   */
+  async unuse(name: string) {
+    const loaded = this.unregisterPlugin(name);
+
+    if (!loaded) {
+      return false;
+    }
+    await loaded.plugin.onUnload?.(this);
+
+    return true;
+  }
+
+  /**
+   * Remove the commands registered by plugin {name}, and the mount commands no plugin uses anymore.
+   * Returns the removed plugin, or `undefined` if it is not used.
+   */
+  protected unregisterPlugin(name: string) {
+    const loaded = this.plugins.get(name);
+
+    if (!loaded) {
+      return undefined;
+    }
+
+    for (const { names, listener } of loaded.commands) {
+      if (loaded.mount.getSubCommand(names[0], true)?.listener === listener) {
+        loaded.mount.removeCommand(names[0]);
+      }
+    }
+    // Deepest mounts are first: removing them can empty their parent
+    for (const mount of [...this.plugin_mounts]) {
+      if (!mount.listener.getSubCommands().length) {
+        if (mount.parent.getSubCommand(mount.name, true)?.listener === mount.listener) {
+          mount.parent.removeCommand(mount.name);
+        }
+        this.plugin_mounts.splice(this.plugin_mounts.indexOf(mount), 1);
+      }
+    }
+
+    this.plugins.delete(name);
+    return loaded;
+  }
+
+  /**
+   * Plugins registered with `.use()`, in registration order.
+   */
+  getPlugins() : CliPlugin[] {
+    return [...this.plugins.values()].map(e => e.plugin);
+  }
+
+  /**
+   * Register the plugins of {directory}, in alphabetical order: each `.js` file (or folder with an index)
+   * that exports a plugin (see `isPlugin()`), as default export or as the module itself. Other modules are ignored.
+   * 
+   * Returns the registered plugins. Throws if a module can not be loaded, or if a plugin can not be registered:
+   * plugins of {directory} registered before are then removed (see `.unuse()`).
+   */
+  async loadPlugins(directory: string) : Promise<CliPlugin[]> {
+    const entries = await fs.promises.readdir(directory, { withFileTypes: true });
+    const plugins: CliPlugin[] = [];
+
+    try {
+      for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+        const plugin = this.requirePlugin(directory, entry);
+
+        if (plugin) {
+          await this.use(plugin);
+          plugins.push(plugin);
+        }
+      }
+    } catch (e) {
+      for (const plugin of [...plugins].reverse()) {
+        await this.unuse(plugin.name);
+      }
+      throw e;
+    }
+
+    return plugins;
+  }
+
+  /**
+   * Load the plugin exported by {entry} of {directory}. Returns `undefined` if it is not a module, or does not export a plugin.
+   */
+  protected requirePlugin(directory: string, entry: fs.Dirent) : CliPlugin | undefined {
+    const file = path.resolve(directory, entry.name);
+    const is_module = entry.isFile() ? 
+      path.extname(entry.name) === '.js' : 
+      entry.isDirectory() && (fs.existsSync(path.join(file, 'package.json')) || fs.existsSync(path.join(file, 'index.js')));
+
+    if (!is_module) {
+      return undefined;
+    }
+
+    let exported: any;
+    try {
+      exported = require(file);
+    } catch (e) {
+      throw new Error(`Unable to load plugin ${file}: ${(e as Error).message}`);
+    }
+
+    const plugin = isPlugin(exported?.default) ? exported.default : exported;
+    return isPlugin(plugin) ? plugin : undefined;
+  }
+
+  /**
+   * Add a renderer, used to write results of commands.
+   * Added renderers are tried before the built-in ones, last added first.
+   */
+  addRenderer(renderer: CliRenderer) {
+    this.renderers.unshift(renderer);
+    return this;
+  }
+
+  /**
+   * Render {value} like it would be written in the CLI.
+   * Returns `undefined` if nothing should be written.
+   */
+  render(value: any, mode: CliOutputMode = this.outputMode) : string | undefined {
+    if (value === undefined) {
+      return undefined;
+    }
+
+    const renderer = [...this.renderers, ...DEFAULT_RENDERERS].find(e => e.test(value, mode))!;
+    return renderer.render(value, mode);
+  }
+
+  /**
+   * Write the result of an executed line: errors are given to `onCliError`, values are rendered.
+   * In JSON output mode, errors are rendered too, and written to the error output.
+   */
+  protected printResult(result: CliExecutionResult) {
+    if (result.error) {
+      if (result.outputMode === 'json') {
+        this.printError(this.render(result.error, 'json'));
+      }
+      else if (this.onerror) {
+        this.onerror(result.error);
+      }
+    }
+    else if (!result.streamed && !result.redirect) {
+      this.printValue(result.value, result.outputMode);
+    }
+
+    if (result.suggestions?.length && result.outputMode !== 'json') {
+      this.print(`Did you mean ${result.suggestions.map(e => `"${e}"`).join(' or ')}?`);
+    }
+  }
+
+  /**
+   * Write {value} like a result, rendered in {mode}.
+   */
+  protected printValue(value: any, mode: CliOutputMode) {
+    const rendered = this.render(value, mode);
+
+    if (rendered === undefined) {
+      return;
+    }
+
+    if (mode === 'json') {
+      this.print(rendered);
+    }
+    else {
+      // Multi-line outputs start on their own line
+      this.print("cli: " + (rendered.includes('\n') && !rendered.startsWith('\n') ? '\n' : '') + rendered);
+    }
+  }
+
+  /**
+   * Create an output context writing to this CLI, like the one given to executors in `context.output`.
+   * Lines are updated in place only on a terminal, while the prompt is not shown.
+   */
+  createOutput() : CliOutput {
+    return new CliOutput({
+      print: text => this.printAbovePrompt(() => this.print(text)),
+      printError: text => this.printAbovePrompt(() => this.printError(text)),
+      inPlace: () => this.isTerminal() && (this.line_running || !this.rl_interface) ? this.output : undefined,
+    });
+  }
+
+  /**
+   * Pause the CLI, and ask a question.
    * When question is answered, the CLI goes back.
+   * 
+   * In `headless` and batch modes, the question is answered by the `onQuestion` option.
    */
   question(question: string) : Promise<string> {
+    return this.ask(question);
+  }
+
+  /**
+   * Ask {query}, and wait for the answer.
+   * Rejects with a `CliAbortError` if the question is cancelled (Ctrl+C, `.cancel()`, aborted `options.signal`).
+   */
+  protected ask(query: string, options: CliAskOptions = {}) : Promise<string> {
+    const { mask, signal } = options;
+
+    if (this.headless || this.batch) {
+      if (!this.question_answerer) {
+        return Promise.reject(new Error(`Unable to ask "${query}": CLI is not interactive.`));
+      }
+      return Promise.resolve(this.question_answerer(query));
+    }
+
     if (!this.rl_interface) {
       this.initReadline();
     }
 
+    const rl = this.rl_interface!;
+    const output = this.rl_output!;
+    const controller = new AbortController();
+
+    output.mask = mask;
+    output.prefix = query;
     this.on_question = true;
+    this.answer_in_history = options.history ?? mask === undefined;
+    this.question_controller = controller;
 
-    return new Promise(resolve => {
-      this.rl_interface!.question(question, answer => {
+    return new Promise((resolve, reject) => {
+      const abort = () => controller.abort();
+      const end = () => {
         this.on_question = false;
+        this.question_controller = undefined;
+        signal?.removeEventListener('abort', abort);
+        output.mask = undefined;
+      };
+
+      controller.signal.addEventListener('abort', () => {
+        end();
+        reject(new CliAbortError('Question cancelled.', 'cancelled'));
+      });
+      signal?.addEventListener('abort', abort);
+      if (signal?.aborted) {
+        abort();
+        return;
+      }
+
+      rl.question(query, { signal: controller.signal }, answer => {
+        end();
         resolve(answer);
       });
     });
   }
 
+  /**
+   * Ask {query} until {parse} accepts the answer. Invalid answers are explained, then the question is asked again.
+   * When answers come from `onQuestion`, an invalid answer rejects instead.
+   */
+  protected async askValid<T>(query: string, parse: (answer: string) => T, options: CliAskOptions = {}) : Promise<T> {
+    for (;;) {
+      const answer = await this.ask(query, options);
+
+      try {
+        return parse(answer);
+      } catch (e) {
+        if (this.headless || this.batch) {
+          throw new Error(`Invalid answer "${answer}" to "${query.trim()}": ${(e as Error).message}`);
+        }
+        this.printError((e as Error).message);
+      }
+    }
+  }
+
+  /**
+   * `true` if prompts can use the keyboard (arrow keys...): the CLI is interactive, on a terminal.
+   */
+  protected hasKeyboard() {
+    if (this.headless || this.batch) {
+      return false;
+    }
+    if (!this.rl_interface) {
+      this.initReadline();
+    }
+    return this.isTerminal();
+  }
+
+  /**
+   * Let the user pick options of {choices} with arrow keys (and space to select them, if {multiple}).
+   * Typing numbers or titles also works. Returns the chosen indexes.
+   */
+  protected async pickFromList(message: string, choices: CliChoice<any>[], multiple: boolean, cursor: number, selected: Set<number>) : Promise<number[]> {
+    const rl = this.rl_interface!;
+    const query = multiple ? 'Move with arrows, select with space, confirm with enter: ' : 'Move with arrows, confirm with enter: ';
+
+    const render = () => {
+      for (const [i, choice] of choices.entries()) {
+        readline.cursorTo(this.output, 0);
+        readline.clearLine(this.output, 0);
+        this.output.write(
+          (i === cursor ? '> ' : '  ') + 
+          (multiple ? (selected.has(i) ? '[x] ' : '[ ] ') : '') + 
+          choice.title + 
+          (choice.description ? `  ${choice.description}` : '') + 
+          '\n'
+        );
+      }
+    };
+
+    const onKeypress = (_: string, key?: { name?: string }) => {
+      if (key?.name === 'up') {
+        cursor = (cursor + choices.length - 1) % choices.length;
+      }
+      else if (key?.name === 'down') {
+        cursor = (cursor + 1) % choices.length;
+      }
+      else if (key?.name === 'space' && multiple) {
+        selected.has(cursor) ? selected.delete(cursor) : selected.add(cursor);
+      }
+      else {
+        return;
+      }
+
+      // readline has handled the key first: remove the typed space, or the history entry shown by arrows
+      rl.write(null, { ctrl: true, name: 'e' });
+      rl.write(null, { ctrl: true, name: 'u' });
+
+      // Draw the list again, above the prompt
+      readline.moveCursor(this.output, 0, -choices.length);
+      render();
+      rl.prompt(true);
+    };
+
+    this.input.on('keypress', onKeypress);
+
+    try {
+      this.print(message);
+      render();
+
+      for (;;) {
+        const answer = await this.ask(query, { history: false });
+
+        try {
+          return multiple ? 
+            parseMultiSelection(answer, choices, [...selected].sort((a, b) => a - b)) : 
+            [parseSelection(answer, choices, cursor)];
+        } catch (e) {
+          this.printError((e as Error).message);
+          render();
+        }
+      }
+    } finally {
+      this.input.removeListener('keypress', onKeypress);
+    }
+  }
+
+  /**
+   * Ask a yes/no question. Answers are `y`, `yes`, `n` or `no`.
+   */
+  confirm(message: string, options: CliConfirmOptions = {}) : Promise<boolean> {
+    const hint = options.default === undefined ? 'y/n' : (options.default ? 'Y/n' : 'y/N');
+    return this.askValid(`${message} (${hint}) `, answer => parseConfirm(answer, options.default), { signal: options.signal });
+  }
+
+  /**
+   * Ask for a secret. On a terminal, typed characters are masked, and the answer is not kept in history.
+   */
+  password(message: string, options: CliPasswordOptions = {}) : Promise<string> {
+    return this.ask(message, { mask: options.mask ?? '*' });
+  }
+
+  /**
+   * Ask for a number, until the answer fulfills {options}.
+   */
+  number(message: string, options: CliNumberOptions = {}) : Promise<number> {
+    const hint = options.default !== undefined ? ` (${options.default})` : '';
+    return this.askValid(`${message}${hint} `, answer => parseNumber(answer, options));
+  }
+
+  /**
+   * Ask to choose one of {choices}, and return its value.
+   * On a terminal, the option is chosen with arrow keys. Elsewhere, choices are numbered: the answer is a number or a title.
+   */
+  async select<T = string>(message: string, choices: Array<string | CliChoice<T>>, options: CliSelectOptions<T> = {}) : Promise<T> {
+    const list = toChoices(choices);
+    const fallback = options.default === undefined ? -1 : list.findIndex(e => e.value === options.default);
+
+    if (!list.length) {
+      throw new Error(`Unable to ask "${message}": there's no option.`);
+    }
+
+    if (this.hasKeyboard()) {
+      const [index] = await this.pickFromList(message, list, false, Math.max(fallback, 0), new Set);
+      return list[index].value;
+    }
+
+    if (!this.headless && !this.batch) {
+      formatChoices(list).forEach(line => this.print(line));
+    }
+
+    const hint = `[1-${list.length}]` + (fallback !== -1 ? ` (${fallback + 1})` : '');
+    const index = await this.askValid(`${message} ${hint}: `, answer => parseSelection(answer, list, fallback));
+
+    return list[index].value;
+  }
+
+  /**
+   * Ask to choose any of {choices}, and return their values.
+   * On a terminal, options are selected with arrow keys and space. Elsewhere, choices are numbered: 
+   * the answer is a list of numbers or titles, separated by commas.
+   */
+  async multiselect<T = string>(message: string, choices: Array<string | CliChoice<T>>, options: CliMultiSelectOptions<T> = {}) : Promise<T[]> {
+    const list = toChoices(choices);
+    const fallback = list
+      .map((e, i) => options.default?.includes(e.value) ? i : -1)
+      .filter(i => i !== -1);
+
+    if (!list.length) {
+      throw new Error(`Unable to ask "${message}": there's no option.`);
+    }
+
+    let indexes: number[];
+
+    if (this.hasKeyboard()) {
+      indexes = await this.pickFromList(message, list, true, 0, new Set(fallback));
+    }
+    else {
+      if (!this.headless && !this.batch) {
+        formatChoices(list).forEach(line => this.print(line));
+      }
+
+      const hint = `[1-${list.length}, separated by commas]` + (fallback.length ? ` (${fallback.map(i => i + 1).join(',')})` : '');
+      indexes = await this.askValid(`${message} ${hint}: `, answer => parseMultiSelection(answer, list, fallback));
+    }
+
+    return indexes.map(i => list[i].value);
+  }
+
   /**
    * Close the prompt session.
    */
@@ -203,14 +1992,40 @@ export default class CliHelper extends CliListener {
   }
 
   /**
-   * Starts the listening of `stdin`.
+   * Expose the commands of this CLI over a Unix domain socket or a TCP port.
+   * Each client gets its own session, see `.createSession()`.
+   * 
+   * Resolves when the server is listening.
+   */
+  async serve(options: CliServerOptions) : Promise<CliServer> {
+    const server = new CliServer(this, options);
+    await server.listen();
+    return server;
+  }
+
+  /**
+   * Starts the listening of `stdin` (or the `input` stream given in options).
    * 
    * Before that, please define the keywords 
    * you want to listen to with `.command()`.
+   * 
+   * In batch mode (piped input), commands are executed in order without prompt,
+   * and the process exits with a code that tells if a command failed.
    */
   listen() {
+    if (this.headless) {
+      throw new Error('Headless CLI can not listen: use .execute() instead.');
+    }
+
+    if (this.batch) {
+      this.listenBatch().catch(this.onerror);
+      return;
+    }
+
     this.on_question = false;
-    this.initReadline();
+    if (!this.rl_interface) {
+      this.initReadline();
+    }
     this.rl_interface!.prompt();
   }
 }
@@ -1,4 +1,13 @@
-import { CliValidator, CliSuggestor, CliExecutor, CliStackItem } from ".";
+import { CliValidator, CliSuggestor, CliExecutor, CliStackItem, CliExecutionContext, CliMatchState, CliMiddleware, CliInvocation } from ".";
+import { CliArgumentsSpec, CliArgumentError, parseArguments, formatUsage } from "./arguments";
+import { tokenize, matchTokens, quoteToken } from "./tokenizer";
+import { CliCompletion, CliSuggestion, toSuggestion, rankSuggestions, closestValues } from "./suggestions";
+import { CliOutputMode } from "./renderers";
+import { CliIdentity, CliPermissionError, hasAccess } from "./permissions";
+import { CliAbortError, runAbortable } from "./abort";
+import { CliOutput, isAsyncIterable, readStream } from "./output";
+import { CliVariables } from "./variables";
+import { formatCommandName } from "./help";
 
 export interface CliListenerOptions {
   /**
@@ -13,16 +22,497 @@ export interface CliListenerOptions {
   onValidateBefore?: CliValidator, 
   /** Callback to execute to suggest things into the CLI from this command listener. */
   onSuggest?: CliSuggestor,
+  /** 
+   * Arguments accepted by the executor of this command. 
+   * If set, {rest} is parsed before the executor is called, and the result is given in `context.args`.
+   * If parsing fails, executor is not called and a `CliArgumentError` is returned instead (middlewares get it from `next()`).
+   */
+  args?: CliArgumentsSpec,
+  /** Short description of the command, shown in the generated help. */
+  description?: string,
+  /** Usage of the command, shown in the generated help. Default to the usage generated from {args}. */
+  usage?: string,
+  /** Output mode to use for results of this command, whatever the mode of the CLI is. */
+  outputMode?: CliOutputMode,
+  /**
+   * Values that match this command, suggested by tab completion when the command is a `RegExp`.
+   * Can be a function that returns them (it receives the rest and stack of the parent command).
+   * Values that does not match the `RegExp` are ignored.
+   */
+  examples?: string[] | CliSuggestor,
+  /**
+   * Functions called around the executor of this command and of all its sub-commands.
+   * See `.addMiddleware()`.
+   */
+  middlewares?: CliMiddleware[],
+  /**
+   * Roles allowed to run this command and its sub-commands: the identity of the CLI needs one of them.
+   * Other users get a `CliPermissionError`, and do not see the command in completion and help.
+   */
+  roles?: string[],
+  /** Permissions needed to run this command and its sub-commands: the identity of the CLI needs all of them. */
+  permissions?: string[],
+  /** Do not show this command in completion and help. It can still be run. */
+  hidden?: boolean,
+  /**
+   * Maximum execution time of this command and its sub-commands, in milliseconds.
+   * When it is exceeded, the command is aborted with a `CliAbortError`. Sub-commands can set their own.
+   */
+  timeout?: number,
+  /**
+   * Ask the user to confirm before running the command: `true` asks "Are you sure?", a `string` is the question to ask.
+   * If the user does not answer yes, the executor is not called and a `CliAbortError` is returned.
+   * The question is asked after middlewares, and counts in the timeout of the command.
+   */
+  confirm?: boolean | string,
+  /**
+   * When sibling commands match the same line, exact words are used first, then the longest match.
+   * If it is still a tie, the command with the highest priority is used. Default to `0`.
+   */
+  priority?: number,
+}
+
+/**
+ * A registered sub-command, with all the names it is registered with.
+ */
+export interface CliSubCommand {
+  names: Array<string | RegExp>;
+  listener: CliListener;
+}
+
+/**
+ * A sub-command found at the start of a line (see `.findSubCommand()`).
+ */
+export interface CliSubCommandMatch {
+  listener: CliListener;
+  /** Item of the stack for this command: the matched name, or the `RegExp` and its matches. */
+  item: CliStackItem;
+  /** Rest of the line, after what the command matched. */
+  rest: string;
+}
+
+export type CliCommandChangeType = 'add' | 'remove' | 'replace';
+
+/**
+ * A change of the command tree, given to handlers added with `.addChangeListener()`.
+ */
+export interface CliCommandChange {
+  type: CliCommandChangeType;
+  /** Names of the sub-commands leading to the changed listener, from the one the handler is added to. Empty if it is this one. */
+  path: Array<string | RegExp>;
+  /** Names of the added, removed or replaced command. */
+  names: Array<string | RegExp>;
+  /** Added or removed listener, or the new one if it is replaced. */
+  listener: CliListener;
+  /** Replaced listener. */
+  previous?: CliListener;
+}
+
+/**
+ * A command of the tree returned by `.getCommandTree()`.
+ */
+export interface CliCommandNode {
+  /** Names of the command. `RegExp` are shown as `<pattern>`. */
+  names: string[];
+  description?: string;
+  usage: string;
+  hidden: boolean;
+  roles?: string[];
+  permissions?: string[];
+  /** Sub-commands, in registration order. */
+  commands: CliCommandNode[];
+}
+
+/**
+ * Two sibling commands that can match the same words (see `.getAmbiguities()`).
+ */
+export interface CliAmbiguity {
+  names: [string | RegExp, string | RegExp];
+  /** Explanation, with the command that is used. */
+  message: string;
+}
+
+/**
+ * A sub-command that matches a line, with what is needed to choose between candidates.
+ */
+interface CliMatchCandidate {
+  matcher: string | RegExp;
+  listener: CliListener;
+  /** `true` for `string` commands: they match exact words. */
+  exact: boolean;
+  /** Length of the matched text. */
+  length: number;
+  /** Registration order. */
+  order: number;
+}
+
+/**
+ * Choose the candidate to use: exact words first, then the longest match, then the highest priority,
+ * then the first registered.
+ */
+function bestCandidate<T extends CliMatchCandidate>(candidates: Array<T | undefined>) : T | undefined {
+  return candidates
+    .filter((e): e is T => !!e)
+    .sort((a, b) => 
+      (Number(b.exact) - Number(a.exact)) || 
+      (b.length - a.length) || 
+      (b.listener.priority - a.listener.priority) || 
+      (a.order - b.order)
+    )[0];
+}
+
+/**
+ * Handlers of the changes of a listener, and the changes waiting for them. Shared by a CLI and its sessions.
+ */
+interface CliChangeState {
+  handlers: Array<(change: CliCommandChange) => void>;
+  /** Changes made while handlers run, given to them after the current one. */
+  queue: CliCommandChange[];
+  emitting: boolean;
+}
+
+/** States a forwarded change went through, to not loop when a listener is registered inside itself. */
+const change_routes = new WeakMap<CliCommandChange, Set<CliChangeState>>();
+
+function sameName(a: string | RegExp, b: string | RegExp) {
+  return a === b || (a instanceof RegExp && b instanceof RegExp && a.source === b.source && a.flags === b.flags);
+}
+
+function describeCommands(listener: CliListener, seen: Set<CliListener>) : CliCommandNode[] {
+  return listener.getSubCommands().map(({ names, listener: sub }) => ({
+    names: names.map(formatCommandName),
+    description: sub.description,
+    usage: sub.usage,
+    hidden: sub.hidden,
+    roles: sub.roles,
+    permissions: sub.permissions,
+    // A listener can be registered in multiple places: do not loop
+    commands: seen.has(sub) ? [] : describeCommands(sub, new Set(seen).add(sub)),
+  }));
 }
 
 export class CliListener {
   protected listeners: Map<string | RegExp, CliListener> = new Map;
   protected validator?: CliValidator;
   protected suggestor?: CliSuggestor;
+  protected args_spec?: CliArgumentsSpec;
+  protected custom_usage?: string;
+  /** Short description of the command, shown in the generated help. */
+  description?: string;
+  /** Output mode to use for results of this command, whatever the mode of the CLI is. */
+  outputMode?: CliOutputMode;
+  protected examples?: string[] | CliSuggestor;
+  protected middlewares: CliMiddleware[];
+  /** Roles allowed to run this command (one of them is needed). */
+  roles?: string[];
+  /** Permissions needed to run this command (all of them are needed). */
+  permissions?: string[];
+  /** Do not show this command in completion and help. */
+  hidden: boolean;
+  /** Maximum execution time of this command and its sub-commands, in milliseconds. */
+  timeout?: number;
+  /** Priority of this command over its siblings that match the same words, as long. */
+  priority: number;
+  /** Question to confirm before running this command. */
+  protected confirm_question?: boolean | string;
+  protected change_state: CliChangeState = { handlers: [], queue: [], emitting: false };
+  /** Words of the `string` names, as they're compared (see `.getAmbiguities()`). */
+  protected name_words = new Map<string, string>();
+  /** Handlers added to sub-commands, that forward their changes to the handlers of this listener. */
+  protected forwarders = new Map<CliListener, (change: CliCommandChange) => void>();
 
   constructor(protected executor: CliExecutor, options?: CliListenerOptions) { 
     this.validator = options?.onValidateBefore;
     this.suggestor = options?.onSuggest;
+    this.args_spec = options?.args;
+    this.description = options?.description;
+    this.custom_usage = options?.usage;
+    this.outputMode = options?.outputMode;
+    this.examples = options?.examples;
+    this.middlewares = [...(options?.middlewares ?? [])];
+    this.roles = options?.roles;
+    this.permissions = options?.permissions;
+    this.hidden = options?.hidden ?? false;
+    this.timeout = options?.timeout;
+    this.confirm_question = options?.confirm;
+    this.priority = options?.priority ?? 0;
+  }
+
+  /**
+   * Usage of the command: the one given in options, or the one generated from its argument spec.
+   */
+  get usage() {
+    if (this.custom_usage !== undefined) {
+      return this.custom_usage;
+    }
+    return this.args_spec ? formatUsage(this.args_spec) : '';
+  }
+
+  /**
+   * Get the registered sub-commands, in registration order.
+   * A listener registered with multiple names (aliases) is returned once.
+   */
+  getSubCommands() : CliSubCommand[] {
+    const commands = new Map<CliListener, CliSubCommand>();
+
+    for (const [name, listener] of this.listeners) {
+      if (commands.has(listener)) {
+        commands.get(listener)!.names.push(name);
+      }
+      else {
+        commands.set(listener, { names: [name], listener });
+      }
+    }
+
+    return [...commands.values()];
+  }
+
+  /**
+   * Get the sub-command registered with {name}: the same `string`, a `RegExp` with the same source and flags,
+   * or for a `string`, a `RegExp` name that matches it (unless {exact} is `true`).
+   */
+  getSubCommand(name: string | RegExp, exact = false) : CliSubCommand | undefined {
+    const commands = this.getSubCommands();
+
+    return commands.find(command => command.names.some(e => sameName(e, name))) ?? (typeof name === 'string' && !exact ? 
+      commands.find(command => command.names.some(e => e instanceof RegExp && new RegExp(`^(?:${e.source})$`, e.flags).test(name))) :
+      undefined
+    );
+  }
+
+  /**
+   * Get the listener at {path} (words, or a line), from this one. Unlike the help, roles and permissions are not checked.
+   * Returns `undefined` if path does not exist.
+   */
+  getCommand(path: string | string[]) : CliListener | undefined {
+    const words = typeof path === 'string' ? tokenize(path).map(e => e.value) : path;
+    let current: CliListener | undefined = this;
+
+    for (const word of words) {
+      current = current.getSubCommand(word)?.listener;
+
+      if (!current) {
+        return undefined;
+      }
+    }
+
+    return current;
+  }
+
+  /**
+   * Describe the commands under this listener, recursively.
+   */
+  getCommandTree() : CliCommandNode[] {
+    return describeCommands(this, new Set([this]));
+  }
+
+  /**
+   * Find the sub-commands that can match the same words: a `RegExp` that matches a `string` command,
+   * or two commands with the same words. Names of the same command are not ambiguous.
+   */
+  getAmbiguities() : CliAmbiguity[] {
+    const entries = [...this.listeners];
+    const ambiguities: CliAmbiguity[] = [];
+
+    for (let i = 0; i < entries.length; i++) {
+      for (let j = i + 1; j < entries.length; j++) {
+        const ambiguity = this.compareNames(entries[i], entries[j]);
+
+        if (ambiguity) {
+          ambiguities.push(ambiguity);
+        }
+      }
+    }
+
+    return ambiguities;
+  }
+
+  /**
+   * Find the sub-commands that can match the same words as a new sub-command named {name} (see `.getAmbiguities()`):
+   * the same words or `RegExp`, a `RegExp` that matches {name}, or a `string` that {name} matches.
+   */
+  getConflicts(name: string | RegExp) : Array<string | RegExp> {
+    const candidate = new CliListener('');
+
+    return [...this.listeners]
+      .filter(entry => this.compareNames(entry, [name, candidate]))
+      .map(([other]) => other);
+  }
+
+  /**
+   * Tell if sub-commands {a} and {b} (registered first) can match the same words.
+   */
+  protected compareNames([a, a_listener]: [string | RegExp, CliListener], [b, b_listener]: [string | RegExp, CliListener]) : CliAmbiguity | undefined {
+    if (a_listener === b_listener) {
+      return undefined;
+    }
+
+    // On a tie, the highest priority wins, then the first registered
+    const tie_winner = b_listener.priority > a_listener.priority ? b : a;
+    const names: [string | RegExp, string | RegExp] = [a, b];
+
+    if (typeof a === 'string' && typeof b === 'string') {
+      if (this.wordsOf(a) === this.wordsOf(b)) {
+        return { names, message: `"${a}" and "${b}" are the same words: "${tie_winner}" is used.` };
+      }
+    }
+    else if (typeof a === 'string' || typeof b === 'string') {
+      const [word, regex] = (typeof a === 'string' ? [a, b] : [b, a]) as [string, RegExp];
+
+      if (word.match(regex)) {
+        return { names, message: `${formatCommandName(regex)} also matches "${word}": "${word}" is used, as exact words.` };
+      }
+    }
+    else if (sameName(a, b)) {
+      return { names, message: `${formatCommandName(a)} is registered twice: the ${tie_winner === a ? 'first' : 'second'} one is used.` };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Words of {name}, joined by a space. Names are tokenized once.
+   */
+  protected wordsOf(name: string) {
+    let words = this.name_words.get(name);
+
+    if (words === undefined) {
+      words = tokenize(name).map(e => e.value).join(' ');
+      this.name_words.set(name, words);
+    }
+    return words;
+  }
+
+  /**
+   * Remove the sub-command registered with {name} (the same `string`, or a `RegExp` with the same source and flags), with all its names.
+   * Returns the removed listener, or `undefined` if there is no such command.
+   */
+  removeCommand(name: string | RegExp) : CliListener | undefined {
+    const found = this.getSubCommand(name, true);
+
+    if (!found) {
+      return undefined;
+    }
+
+    for (const e of found.names) {
+      this.listeners.delete(e);
+    }
+    this.updateForwarders();
+    this.emitChange({ type: 'remove', path: [], names: found.names, listener: found.listener });
+
+    return found.listener;
+  }
+
+  /**
+   * Replace the sub-command registered with {name} (like `.removeCommand()`): the new command keeps all its names,
+   * but not its sub-commands. Parameters are the ones of `.command()`.
+   * 
+   * Throws if there is no such command.
+   */
+  replaceCommand(name: string | RegExp, executor: CliExecutor | CliListener, options?: CliListenerOptions) {
+    const found = this.getSubCommand(name, true);
+
+    if (!found) {
+      throw new Error(`Command ${formatCommandName(name)} does not exist.`);
+    }
+    return this.command(found.names, executor, options);
+  }
+
+  /**
+   * Call {handler} when a command is added, removed or replaced, under this listener or any of its sub-commands.
+   */
+  addChangeListener(handler: (change: CliCommandChange) => void) {
+    this.change_state.handlers.push(handler);
+    return this;
+  }
+
+  removeChangeListener(handler: (change: CliCommandChange) => void) {
+    const { handlers } = this.change_state;
+    const index = handlers.indexOf(handler);
+
+    if (index !== -1) {
+      handlers.splice(index, 1);
+    }
+    return this;
+  }
+
+  protected emitChange(change: CliCommandChange) {
+    const state = this.change_state;
+    const route = change_routes.get(change);
+
+    // A listener can be registered inside itself: do not loop
+    if (route?.has(state)) {
+      return;
+    }
+    change_routes.set(change, new Set(route).add(state));
+
+    // Changes made by handlers wait for the current one to be handled
+    state.queue.push(change);
+    if (state.emitting) {
+      return;
+    }
+
+    state.emitting = true;
+    try {
+      while (state.queue.length) {
+        const next = state.queue.shift()!;
+
+        for (const handler of [...state.handlers]) {
+          handler(next);
+        }
+      }
+    } finally {
+      state.emitting = false;
+      state.queue.length = 0;
+    }
+  }
+
+  /**
+   * Listen to the changes of the current sub-commands (and only them), to forward them.
+   */
+  protected updateForwarders() {
+    const children = new Set(this.listeners.values());
+
+    for (const [child, forwarder] of this.forwarders) {
+      if (!children.has(child)) {
+        child.removeChangeListener(forwarder);
+        this.forwarders.delete(child);
+      }
+    }
+
+    for (const child of children) {
+      if (this.forwarders.has(child)) {
+        continue;
+      }
+
+      const forwarder = (change: CliCommandChange) => {
+        const name = this.getSubCommands().find(e => e.listener === child)?.names[0];
+
+        if (name !== undefined) {
+          const forwarded = { ...change, path: [name, ...change.path] };
+
+          change_routes.set(forwarded, new Set(change_routes.get(change)));
+          this.emitChange(forwarded);
+        }
+      };
+      child.addChangeListener(forwarder);
+      this.forwarders.set(child, forwarder);
+    }
+  }
+
+  /**
+   * Check if {identity} is allowed to run this command (see `roles` and `permissions` options).
+   * Requirements of parent commands are not checked.
+   */
+  canAccess(identity: CliIdentity | undefined) {
+    return hasAccess(identity, this.roles, this.permissions);
+  }
+
+  /**
+   * Get the sub-commands that {identity} can see: the ones it is allowed to run, and that are not hidden.
+   */
+  getVisibleSubCommands(identity: CliIdentity | undefined) : CliSubCommand[] {
+    return this.getSubCommands().filter(e => !e.listener.hidden && e.listener.canAccess(identity));
   }
   /** Make consecutive call to commands
    * 
@@ -34,10 +524,29 @@ export class CliListener {
 
     }
   }
+  /**
+   * Add a middleware, called around the executor of this listener and of all its sub-commands.
+   * Middlewares run in registration order, the ones of parent listeners first.
+   * 
+   * ```ts
+   * cli.addMiddleware(async (invocation, next) => {
+   *   const start = Date.now();
+   *   const result = await next();
+   *   console.log(`${invocation.line} took ${Date.now() - start}ms`);
+   *   return result;
+   * });
+   * ```
+   */
+  addMiddleware(middleware: CliMiddleware) {
+    this.middlewares.push(middleware);
+    return this;
+  }
+
   /**
    * Add a new command listener for {command_name}.
    *  
    * Return the newly created `CliListener`, which where you can create another sub-listeners.
+   * If a command is already registered with {command_name}, it is replaced.
    * 
    * @param command_name The thing(s) that the new command listener should match to.
    * 
@@ -54,6 +563,26 @@ export class CliListener {
    * If the `boolean` is `false`, the executor only will be called with its `validator_state` (third) parameter to `false`.
    * 
    * @param options.onSuggest Callback to execute to suggest things into the CLI from this command listener.
+   * 
+   * @param options.args Arguments spec of the command. Parsed arguments are given to the executor in `context.args`.
+   * 
+   * @param options.description / options.usage Informations shown in the generated help.
+   * 
+   * @param options.middlewares Functions called around the executor of the command and of its sub-commands.
+   * 
+   * @param options.roles / options.permissions Requirements to run the command and its sub-commands.
+   * 
+   * @param options.hidden Do not show the command in completion and help.
+   * 
+   * @param options.timeout Maximum execution time of the command and its sub-commands, in milliseconds.
+   * 
+   * @param options.confirm Ask the user to confirm before running the command.
+   * 
+   * @param options.priority Priority of the command over its siblings, when they match the same words.
+   * 
+   * A warning is emitted (see `process.on('warning')`) if a sibling has the same words, or the same `RegExp`:
+   * only priority and registration order choose between them. A `RegExp` that matches a `string` sibling is not
+   * reported, as the `string` is always used (see `.getAmbiguities()`).
    */
   command(command_name: string | RegExp | Array<RegExp | string>, executor: CliExecutor | CliListener, options?: CliListenerOptions) {
     let new_one: CliListener;
@@ -64,125 +593,361 @@ export class CliListener {
         executor.validator = options.onValidateBefore;
       if (options?.onSuggest)
         executor.suggestor = options.onSuggest;
+      if (options?.args)
+        executor.args_spec = options.args;
+      if (options?.description)
+        executor.description = options.description;
+      if (options?.usage)
+        executor.custom_usage = options.usage;
+      if (options?.outputMode)
+        executor.outputMode = options.outputMode;
+      if (options?.examples)
+        executor.examples = options.examples;
+      if (options?.middlewares)
+        executor.middlewares.push(...options.middlewares);
+      if (options?.roles)
+        executor.roles = options.roles;
+      if (options?.permissions)
+        executor.permissions = options.permissions;
+      if (options?.hidden !== undefined)
+        executor.hidden = options.hidden;
+      if (options?.timeout !== undefined)
+        executor.timeout = options.timeout;
+      if (options?.confirm !== undefined)
+        executor.confirm_question = options.confirm;
+      if (options?.priority !== undefined)
+        executor.priority = options.priority;
     }
     else {
       new_one = new CliListener(executor, options);
     }
 
-    if (Array.isArray(command_name)) {
-      for (const e of command_name) {
-        this.listeners.set(e, new_one);
-      }
+    const names = Array.isArray(command_name) ? command_name : [command_name];
+    const previous = names.map(e => this.listeners.get(e)).find(e => e && e !== new_one);
+
+    for (const e of names) {
+      this.listeners.set(e, new_one);
     }
-    else {
-      this.listeners.set(command_name, new_one);
+
+    this.updateForwarders();
+    this.emitChange({ type: previous ? 'replace' : 'add', path: [], names, listener: new_one, previous });
+
+    for (const name of names) {
+      for (const [other, listener] of this.listeners) {
+        // Exact words are used before a RegExp, whatever the order: not a tie
+        const ambiguity = typeof other === typeof name && this.compareNames([other, listener], [name, new_one]);
+
+        if (ambiguity) {
+          process.emitWarning(ambiguity.message, 'CliAmbiguityWarning');
+        }
+      }
     }
 
     return new_one;
   }
 
+  /**
+   * Find the sub-command {rest} starts with, like `.match()` does: `string` commands (exact words) first,
+   * then the longest match, then the highest priority, then the first registered.
+   * Roles and permissions are not checked.
+   * 
+   * @param tokens Tokens of {rest}, if they're already known.
+   */
+  findSubCommand(rest: string, tokens = tokenize(rest)) : CliSubCommandMatch | undefined {
+    const best = bestCandidate([...this.listeners].map(([matcher, listener], order) => {
+      if (typeof matcher === 'string') {
+        // String commands only match whole words
+        const end = matchTokens(tokens, matcher);
+        return end === -1 ? undefined : { matcher, listener, order, exact: true, length: end, end, matches: null };
+      }
+
+      const matches = rest.match(matcher);
+      return matches ? { matcher, listener, order, exact: false, length: matches[0].length, end: -1, matches } : undefined;
+    }));
+
+    if (!best) {
+      return undefined;
+    }
+
+    const { matcher, listener, end, matches } = best;
+
+    return typeof matcher === 'string' ? 
+      { listener, item: matcher, rest: rest.slice(end).trimLeft() } : 
+      { listener, item: [matcher, matches!], rest: rest.replace(matcher, '').trimLeft() };
+  }
+
   /**
    * Try to match a sub-listener. 
    * If any sub-listener matches, then execute the current executor.
    * 
    * @param rest Rest of the string, after the things that have been matched.
    * @param matches Regular expression matches array. `null` if the thing that have matched is a string.
+   * @param state State shared with the sub-listeners. The listener that executes stores its stack in it.
+   * 
+   * If the matched listener has an argument spec and {rest} does not match it,
+   * the executor is not called and a `CliArgumentError` is returned.
+   * 
+   * Middlewares of the matched listeners are called around the executor, the argument errors and the confirmation.
+   * 
+   * If the identity of `state.cli` is not allowed to run a matched sub-command, a `CliPermissionError` is returned.
+   * 
+   * If `state.signal` is aborted or the timeout of the matched listeners is exceeded, 
+   * the returned promise rejects with a `CliAbortError`.
+   * 
+   * If the executor returns an async iterable, its values are given to `state.onItem` as they come,
+   * and the array of values is returned.
    */
-  async match(rest: string, stack: CliStackItem[], matches: RegExpMatchArray | null): Promise<any> {
+  async match(rest: string, stack: CliStackItem[], matches: RegExpMatchArray | null, state: CliMatchState = {}): Promise<any> {
     let validator_state: boolean | undefined = undefined;
 
+    if (state.line === undefined) {
+      state.line = rest;
+    }
+    const middlewares = [...(state.middlewares ?? []), ...this.middlewares];
+    state.middlewares = middlewares;
+    if (this.timeout !== undefined) {
+      state.timeout = this.timeout;
+    }
+
     if (this.validator) {
       validator_state = await this.validator(rest, matches);
     }
 
+    const tokens = tokenize(rest);
+    const identity = state.cli?.identity;
+    const denied = (item: CliStackItem) => new CliPermissionError(
+      [...stack, item].map(e => typeof e === 'string' ? e : e[1][0]).join(' ')
+    );
+
     if (validator_state !== false) {
-      for (const matcher of this.listeners.keys()) {
-        if (typeof matcher === 'string') {
-          if (rest.startsWith(matcher)) {
-            return this.listeners.get(matcher)!.match(rest.slice(matcher.length).trimLeft(), [...stack, matcher], null);
-          }
-        }
-        else {
-          const matches = rest.match(matcher);
+      const found = this.findSubCommand(rest, tokens);
 
-          if (matches) {
-            return this.listeners.get(matcher)!.match(rest.replace(matcher, '').trimLeft(), [...stack, [matcher, matches]], matches);
-          }
+      if (found) {
+        const { listener, item } = found;
+
+        if (!listener.canAccess(identity)) {
+          return denied(item);
         }
+        return listener.match(found.rest, [...stack, item], typeof item === 'string' ? null : item[1], state);
       }
     }
 
-    if (typeof this.executor === 'function')
-      return this.executor(rest, stack, matches, validator_state);
-    return this.executor;
-  }
+    state.stack = stack;
+    state.listener = this;
+    const controller = new AbortController();
+    const context: CliExecutionContext = { 
+      args: {}, 
+      tokens: tokens.map(e => e.value), 
+      cli: state.cli, 
+      signal: controller.signal,
+      output: state.cli?.createOutput() ?? new CliOutput({
+        print: text => console.log(text),
+        printError: text => console.warn(text),
+        inPlace: () => undefined,
+      }),
+      variables: state.cli?.variables ?? new CliVariables(),
+      input: state.input,
+    };
 
-  protected isValid(rest: string) {
-    if (rest.length === 0) {
-      return true;
+    // Rest should have been a sub-command: find the ones that look like it.
+    // Commands without sub-commands take free text, that is not a mistyped command.
+    if (tokens.length && validator_state !== false && !this.args_spec && this.listeners.size) {
+      const names = this.getVisibleSubCommands(identity)
+        .flatMap(e => e.names)
+        .filter((e): e is string => typeof e === 'string');
+      const close = closestValues(tokens[0].value, names);
+
+      if (close.length) {
+        context.didYouMean = close;
+        state.didYouMean = close;
+      }
     }
-    if (rest[0].trim().length === 0) {
-      return true;
+
+    // Arguments are parsed before middlewares run, so they can read them, but errors go through them
+    let args_error: unknown;
+    if (this.args_spec && validator_state !== false) {
+      try {
+        context.args = parseArguments(context.tokens, this.args_spec);
+      } catch (e) {
+        if (e instanceof CliArgumentError) {
+          e.usage = formatUsage(this.args_spec);
+        }
+        args_error = e;
+      }
     }
-    return false;
-  }
 
-  protected async getSuggests(rest: string, stack: CliStackItem[], stop_on_next = false) : Promise<[string[], string]> {
-    const matches: string[] = [];
+    const invocation: CliInvocation = { 
+      line: state.line, 
+      rest, 
+      stack, 
+      matches, 
+      validatorState: validator_state, 
+      context, 
+      listener: this,
+    };
+
+    return runAbortable(controller, async () => {
+      try {
+        const value = await this.runMiddlewares(middlewares, invocation, async () => {
+          if (args_error instanceof CliArgumentError) {
+            return args_error;
+          }
+          if (args_error) {
+            throw args_error;
+          }
+
+          if (this.confirm_question && validator_state !== false) {
+            const question = typeof this.confirm_question === 'string' ? this.confirm_question : 'Are you sure?';
 
-    for (const matcher of this.listeners.keys()) {
-      const splittedone = rest.split(/\s+/)[0];
-      let stop = stop_on_next;
+            // Without CLI to ask, it can't be confirmed
+            if (!state.cli || !await state.cli.confirm(question, { default: false, signal: controller.signal })) {
+              return new CliAbortError('Command cancelled.', 'cancelled');
+            }
+          }
 
-      // Stop when suggestion level > 1
-      if (!splittedone.length) {
-        if (stop) {
-          continue;
+          if (typeof this.executor === 'function')
+            return this.executor(rest, stack, matches, validator_state, context);
+          return this.executor;
+        });
+
+        if (isAsyncIterable(value)) {
+          state.streamed = true;
+          return await readStream(value, controller.signal, state.onItem);
         }
-        stop = true;
+        return value;
+      } finally {
+        context.output.end();
       }
+    }, state.signal, state.timeout);
+  }
 
-      if (typeof matcher === 'string' && matcher.startsWith(splittedone) && this.isValid(rest.slice(matcher.length))) {
-        const after_matcher = rest.slice(matcher.length);
-        const size_after_tleft = after_matcher.trimLeft().length;
+  /**
+   * Call {middlewares} in order, then {execute}. Each middleware gets a `next()` that calls the following one.
+   */
+  protected runMiddlewares(middlewares: CliMiddleware[], invocation: CliInvocation, execute: () => any) : Promise<any> {
+    let called = -1;
 
-        const padding = after_matcher.slice(0, after_matcher.length - size_after_tleft) || " ";
+    const dispatch = async (index: number) : Promise<any> => {
+      if (index <= called) {
+        throw new Error('next() called multiple times in a middleware.');
+      }
+      called = index;
+
+      if (index === middlewares.length) {
+        return execute();
+      }
+      return middlewares[index](invocation, () => dispatch(index + 1));
+    };
+
+    return dispatch(0);
+  }
+
+  /**
+   * Get completion candidates for the word at the end of {rest}.
+   * 
+   * Complete words of {rest} are matched against sub-commands first (like `.match()` does),
+   * then candidates are searched in the reached listener: its sub-commands names (and examples of `RegExp` ones)
+   * if no argument has been typed yet, its suggestor values, and its `--options` if the word starts with `-`.
+   * 
+   * Candidates are ranked: values starting with the word first, then values containing it, then fuzzy matches.
+   * Returned values are quoted if needed.
+   * 
+   * Commands that {identity} can't see are not suggested, and nothing is suggested inside the ones it can't run.
+   */
+  async complete(rest: string, stack: CliStackItem[] = [], identity?: CliIdentity) : Promise<CliCompletion> {
+    const tokens = tokenize(rest);
+    const last = tokens[tokens.length - 1];
+    // If there's no space after the last word, it is the one being completed
+    const current = last && last.end === rest.length ? last : undefined;
+    const complete = current ? tokens.slice(0, -1) : tokens;
+
+    if (complete.length) {
+      // Same resolution as .match()
+      const best = bestCandidate([...this.listeners].map(([matcher, listener], order) => {
+        if (typeof matcher === 'string') {
+          const end = matchTokens(complete, matcher);
+          return end === -1 ? undefined : { matcher, listener, order, exact: true, length: end, end, reg_match: null };
+        }
 
-        const m_all = (await this.listeners.get(matcher)!.getSuggests(after_matcher.trimLeft(), [...stack, matcher], stop))[0];
+        const reg_match = complete[0].value.match(matcher);
+        return reg_match ? { matcher, listener, order, exact: false, length: reg_match[0].length, end: complete[0].end, reg_match } : undefined;
+      }));
 
-        matches.push(
-          matcher,
-          ...m_all.map(e => matcher + padding + e), 
-        );
+      if (best) {
+        const { matcher, listener, end, reg_match } = best;
+        const item: CliStackItem = typeof matcher === 'string' ? matcher : [matcher, reg_match!];
+
+        return listener.canAccess(identity) ? 
+          listener.complete(rest.slice(end).trimLeft(), [...stack, item], identity) : 
+          { word: '', suggestions: [] };
       }
-      else if (matcher instanceof RegExp) {
-        const reg_match = splittedone.match(matcher);
+    }
 
-        if (reg_match && this.isValid(rest.slice(reg_match[0].length))) {
-          const after_matcher = rest.slice(reg_match[0].length);
-          const size_after_tleft = after_matcher.trimLeft().length;
+    const word = current?.value ?? '';
+    const candidates: CliSuggestion[] = [];
 
-          const padding = after_matcher.slice(0, after_matcher.length - size_after_tleft) || " ";
+    // Sub-commands can only be typed before any argument
+    if (!complete.length) {
+      for (const [matcher, listener] of this.listeners) {
+        if (listener.hidden || !listener.canAccess(identity)) {
+          continue;
+        }
 
-          const m_all = (await this.listeners.get(matcher)!.getSuggests(after_matcher.trimLeft(), [...stack, [matcher, reg_match]], stop))[0];
+        if (typeof matcher === 'string') {
+          candidates.push({ value: matcher, description: listener.description, kind: 'command' });
+        }
+        else if (listener.examples) {
+          const examples = typeof listener.examples === 'function' ? 
+            await listener.examples(rest, stack) : 
+            listener.examples;
 
-          matches.push(
-            reg_match[1],
-            ...m_all.map(e => reg_match[0] + padding + e), 
+          candidates.push(...examples
+            .map(e => toSuggestion(e, 'command'))
+            .filter(e => matcher.test(e.value))
+            .map(e => ({ description: listener.description, ...e }))
           );
         }
       }
     }
 
-    if (!stop_on_next && this.suggestor) {
-      const user_matches = await this.suggestor(rest, stack);
+    if (this.suggestor) {
+      candidates.push(...(await this.suggestor(rest, stack)).map(e => toSuggestion(e, 'value')));
+    }
 
-      return [
-        [...matches, ...user_matches], 
-        rest
-      ];
+    if (this.args_spec && word.startsWith('-')) {
+      candidates.push(...Object.entries(this.args_spec.options ?? {}).map(([name, option]) => ({
+        value: '--' + name, 
+        description: option.description, 
+        kind: 'argument' as const,
+      })));
     }
 
-    return [matches, rest];
+    const quote = current && /^["']/.test(rest.slice(current.start)) ? rest[current.start] : undefined;
+
+    return {
+      word: current ? rest.slice(current.start) : '',
+      suggestions: rankSuggestions(word, candidates).map(e => ({ ...e, value: quoteToken(e.value, quote) })),
+    };
+  }
+
+  /**
+   * Get completion candidates formatted for `readline`: when there's multiple candidates,
+   * their description is shown next to them.
+   * 
+   * Returns the candidates and the raw word they should replace.
+   */
+  protected async getSuggests(rest: string, stack: CliStackItem[], identity?: CliIdentity) : Promise<[string[], string]> {
+    const { word, suggestions } = await this.complete(rest, stack, identity);
+
+    if (suggestions.length < 2 || suggestions.every(e => !e.description)) {
+      return [suggestions.map(e => e.value), word];
+    }
+
+    const size = Math.max(...suggestions.map(e => e.value.length)) + 2;
+
+    return [
+      suggestions.map(e => e.description ? e.value.padEnd(size, ' ') + e.description : e.value),
+      word,
+    ];
   }
 }
@@ -0,0 +1,159 @@
+import net from 'net';
+import CliHelper from './CliHelper';
+import { CliArgumentError } from './arguments';
+
+export interface CliServerAuthentication {
+  /** Connected client. */
+  socket: net.Socket;
+  /** Session of the client, not started yet. */
+  session: CliHelper;
+  /** Ask a question to the client, and wait for its answer. Rejects if the client disconnects. */
+  question(question: string): Promise<string>;
+  /** Ask a secret to the client, masked as it is typed (see `CliHelper.password()`). Rejects if the client disconnects. */
+  password(question: string): Promise<string>;
+}
+
+export interface CliServerOptions {
+  /** Path of the Unix domain socket to listen on. Takes precedence over {port}. */
+  path?: string;
+  /** TCP port to listen on. */
+  port?: number;
+  /** TCP host to bind. Default to `127.0.0.1`. */
+  host?: string;
+  /**
+   * Called when a client connects, before its session starts.
+   * Return `false` (or a `Promise<false>`) to reject the client.
+   */
+  authenticate?: (auth: CliServerAuthentication) => boolean | Promise<boolean>;
+  /** Prompt of the sessions. Default to the prompt of the served CLI. */
+  prompt?: string;
+  /** Message sent to the client when its session starts. */
+  welcome?: string;
+  /**
+   * Use terminal mode for the sessions (line editing and tab completion).
+   * Clients should then use a raw terminal, like `socat -,raw,echo=0 UNIX-CONNECT:/path/to/socket`.
+   *
+   * Default to `true`.
+   */
+  terminal?: boolean;
+  /** Let clients run files of the host with the built-in `source` command. Default to `false`. */
+  allowSource?: boolean;
+  /** Let clients write results to files of the host with `> file` and `>> file`. Default to `false`. */
+  allowRedirection?: boolean;
+}
+
+/**
+ * Expose the commands of a `CliHelper` over a Unix domain socket or a TCP port.
+ *
+ * Each connection gets its own session (see `CliHelper.createSession()`).
+ */
+export class CliServer {
+  protected server: net.Server;
+  /** Sessions of connected clients. */
+  readonly sessions = new Set<CliHelper>();
+
+  constructor(protected cli: CliHelper, protected options: CliServerOptions) {
+    this.server = net.createServer(socket => {
+      this.handleConnection(socket).catch(() => socket.destroy());
+    });
+  }
+
+  protected async handleConnection(socket: net.Socket) {
+    // Writing to a closed client should not crash the host
+    socket.on('error', () => {});
+
+    const session = this.cli.createSession({
+      input: socket,
+      output: socket,
+      terminal: this.options.terminal ?? true,
+      exitOnClose: false,
+      allowSource: this.options.allowSource ?? false,
+      allowRedirection: this.options.allowRedirection ?? false,
+      onCliClose: () => {
+        session.print('Goodbye.');
+        socket.end();
+      },
+      // Clients get the message of errors, not the stack (and the paths) of the host
+      onCliError: error => {
+        session.printError(error instanceof CliArgumentError && error.usage ? `${error.message}\nUsage: ${error.usage}` : error.message);
+      },
+    });
+
+    if (this.options.prompt !== undefined) {
+      session.promptString = this.options.prompt;
+    }
+
+    this.sessions.add(session);
+    socket.on('close', () => {
+      this.sessions.delete(session);
+      session.close();
+    });
+
+    if (this.options.authenticate) {
+      // Questions of a client that left are never answered
+      const disconnected = new Promise<never>((_, reject) => {
+        socket.once('close', () => reject(new Error('Client disconnected.')));
+      });
+      disconnected.catch(() => {});
+
+      const accepted = await this.options.authenticate({
+        socket,
+        session,
+        question: question => Promise.race([session.question(question), disconnected]),
+        password: question => Promise.race([session.password(question), disconnected]),
+      });
+
+      if (!accepted) {
+        session.printError('Authentication failed.');
+        socket.end();
+        return;
+      }
+    }
+
+    if (this.options.welcome) {
+      session.print(this.options.welcome);
+    }
+    session.listen();
+  }
+
+  /**
+   * Starts listening for connections.
+   */
+  listen() : Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.server.once('error', reject);
+
+      const onListening = () => {
+        this.server.off('error', reject);
+        resolve();
+      };
+
+      if (this.options.path) {
+        this.server.listen(this.options.path, onListening);
+      }
+      else {
+        this.server.listen(this.options.port ?? 0, this.options.host ?? '127.0.0.1', onListening);
+      }
+    });
+  }
+
+  /**
+   * Address the server listens on.
+   */
+  address() {
+    return this.server.address();
+  }
+
+  /**
+   * Stop accepting connections and close every open session.
+   */
+  close() : Promise<void> {
+    for (const session of this.sessions) {
+      session.close();
+    }
+
+    return new Promise((resolve, reject) => {
+      this.server.close(err => err ? reject(err) : resolve());
+    });
+  }
+}
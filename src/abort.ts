@@ -0,0 +1,62 @@
+export type CliAbortReason = 'cancelled' | 'timeout';
+
+/**
+ * Thrown when a running command is cancelled (Ctrl+C, `.cancel()`, aborted signal) or exceeds its timeout.
+ * The prompt comes back right away, and the signal given to the executor in `context.signal` is aborted.
+ */
+export class CliAbortError extends Error {
+  name = 'CliAbortError';
+
+  constructor(
+    message: string,
+    public reason: CliAbortReason,
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Call {run}, and abort {controller} when {signal} is aborted or after {timeout} milliseconds.
+ *
+ * The returned promise rejects with a `CliAbortError` as soon as {controller} is aborted,
+ * without waiting for {run} to settle.
+ */
+export function runAbortable<T>(controller: AbortController, run: () => T | Promise<T>, signal?: AbortSignal, timeout?: number) : Promise<T> {
+  return new Promise((resolve, reject) => {
+    let timer: NodeJS.Timeout | undefined;
+
+    const cleanup = () => {
+      if (timer) {
+        clearTimeout(timer);
+      }
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const abort = (error: CliAbortError) => {
+      cleanup();
+      controller.abort();
+      reject(error);
+    };
+    const onAbort = () => abort(new CliAbortError('Command cancelled.', 'cancelled'));
+
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+
+    signal?.addEventListener('abort', onAbort);
+    if (timeout) {
+      timer = setTimeout(() => abort(new CliAbortError(`Command timed out after ${timeout}ms.`, 'timeout')), timeout);
+    }
+
+    new Promise<T>(resolve => resolve(run())).then(
+      value => {
+        cleanup();
+        resolve(value);
+      },
+      error => {
+        cleanup();
+        reject(error);
+      },
+    );
+  });
+}
@@ -0,0 +1,50 @@
+import assert from 'assert';
+import { PassThrough } from 'stream';
+import CliHelper, { CliAliases } from '.';
+
+// Run with: node build/aliases.test.js
+
+async function testExpand() {
+  const aliases = new CliAliases();
+
+  await aliases.set('gp', 'get pies');
+  await aliases.set('add2', 'add $1; add ${2}');
+  await aliases.set('all', 'say $@ !');
+  await aliases.set('loop', 'loop again');
+
+  assert.strictEqual(aliases.expand('get pies'), undefined);
+  assert.deepStrictEqual(aliases.expand('gp'), { name: 'gp', line: 'get pies' });
+  // Words are appended when there's no placeholder, with their quotes
+  assert.deepStrictEqual(aliases.expand(`gp "apple pie"`), { name: 'gp', line: `get pies "apple pie"` });
+  assert.deepStrictEqual(aliases.expand('add2 apple'), { name: 'add2', line: 'add apple; add ' });
+  assert.deepStrictEqual(aliases.expand('all a b'), { name: 'all', line: 'say a b !' });
+  // Quoted names and aliases already expanded are not aliases
+  assert.strictEqual(aliases.expand('"gp"'), undefined);
+  assert.strictEqual(aliases.expand('loop', new Set(['loop'])), undefined);
+
+  assert.throws(() => aliases.set('bad name', 'x'), /Invalid alias name/);
+  assert.throws(() => aliases.set('empty', ' '), /should contain a command/);
+  assert.strictEqual(await aliases.delete('gp'), true);
+  assert.strictEqual(await aliases.delete('gp'), false);
+}
+
+async function testSessions() {
+  const cli = new CliHelper({ onNoMatch: 'Command not found.', headless: true });
+  cli.command('drop', 'dropped', { roles: ['admin'] });
+
+  // An alias defined by a client is not run by the host
+  const session = cli.createSession({ input: new PassThrough(), output: new PassThrough(), identity: { roles: ['guest'] } });
+  await session.execute('alias status = drop');
+  assert.strictEqual(session.aliases.get('status'), 'drop');
+  assert.strictEqual(cli.aliases.get('status'), undefined);
+  assert.notStrictEqual((await cli.execute('status')).value, 'dropped');
+}
+
+(async () => {
+  await testExpand();
+  await testSessions();
+  console.log('Aliases: all tests passed.');
+})().catch(e => {
+  console.error(e);
+  process.exit(1);
+});
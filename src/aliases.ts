@@ -0,0 +1,112 @@
+import fs from 'fs';
+import { tokenize } from './tokenizer';
+
+/**
+ * User-defined shortcuts, expanded before commands are matched.
+ *
+ * An alias can contain multiple commands (separated by `;`, `&&` or `||`), and positional placeholders:
+ * `$1`, `$2`... are replaced by the words given after the alias, `$@` by all of them.
+ * If there's no placeholder, given words are appended to the (last) command.
+ */
+export class CliAliases {
+  protected aliases = new Map<string, string>();
+
+  /**
+   * @param file JSON file where aliases are saved, to keep them between restarts.
+   */
+  constructor(protected file?: string) {}
+
+  /**
+   * Load aliases from the alias file, if it exists.
+   */
+  load() {
+    if (!this.file || !fs.existsSync(this.file)) {
+      return;
+    }
+
+    const saved: { [name: string]: string } = JSON.parse(fs.readFileSync(this.file, 'utf-8'));
+    this.aliases = new Map(Object.entries(saved));
+  }
+
+  protected save() {
+    if (!this.file) {
+      return Promise.resolve();
+    }
+    return fs.promises.writeFile(this.file, JSON.stringify(Object.fromEntries(this.aliases), null, 2));
+  }
+
+  /**
+   * Defined aliases, by name.
+   */
+  entries() : [string, string][] {
+    return [...this.aliases];
+  }
+
+  get(name: string) {
+    return this.aliases.get(name);
+  }
+
+  /**
+   * Define (or replace) alias {name}, and save aliases to file.
+   */
+  set(name: string, command: string) {
+    if (!name || /[\s'"\;$]/.test(name)) {
+      throw new Error(`Invalid alias name "${name}".`);
+    }
+    if (!command.trim()) {
+      throw new Error(`Alias ${name} should contain a command.`);
+    }
+
+    this.aliases.set(name, command);
+    return this.save();
+  }
+
+  /**
+   * Remove alias {name}, and save aliases to file.
+   * Returns `false` if it does not exist.
+   */
+  async delete(name: string) {
+    const deleted = this.aliases.delete(name);
+    if (deleted) {
+      await this.save();
+    }
+    return deleted;
+  }
+
+  /**
+   * Expand the alias at the start of the command {line}, if any.
+   * Returns the name of the alias and the line it gives, that can contain multiple commands,
+   * or `undefined` if {line} does not start with an alias.
+   *
+   * Aliases can use other aliases: expand the commands of the returned line again, with the names of the
+   * aliases already expanded in {seen}, since an alias is never expanded inside itself.
+   */
+  expand(line: string, seen: Set<string> = new Set()) : { name: string, line: string } | undefined {
+    const tokens = tokenize(line);
+    const first = tokens[0];
+
+    if (!first || first.quoted || !this.aliases.has(first.value) || seen.has(first.value)) {
+      return undefined;
+    }
+
+    const name = first.value;
+    // Keep the raw words, with their quotes
+    const args = tokens.slice(1).map(t => line.slice(t.start, t.end));
+    let has_placeholder = false;
+
+    const expanded = this.aliases.get(name)!.replace(/\$(@|\d+)|\$\{(\d+)\}/g, (_, simple, braced) => {
+      has_placeholder = true;
+      const key = simple ?? braced;
+
+      if (key === '@') {
+        return args.join(' ');
+      }
+      return args[Number(key) - 1] ?? '';
+    });
+
+    if (!has_placeholder && args.length) {
+      return { name, line: expanded.trim() + ' ' + args.join(' ') };
+    }
+    return { name, line: expanded };
+  }
+}
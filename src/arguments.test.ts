@@ -0,0 +1,78 @@
+import assert from 'assert';
+import { parseArguments, formatUsage, CliArgumentError, CliArgumentsSpec } from '.';
+
+// Run with: node build/arguments.test.js
+
+const spec: CliArgumentsSpec = {
+  positional: [
+    { name: 'collection', required: true },
+    { name: 'limit', type: 'number', default: 10 },
+  ],
+  options: {
+    force: { type: 'boolean', short: 'f' },
+    verbose: { type: 'boolean', short: 'v' },
+    format: { type: 'enum', choices: ['json', 'csv'], short: 'o' },
+    tags: { type: 'list' },
+  },
+};
+
+/** Reason of the `CliArgumentError` thrown when parsing {tokens}. */
+function failure(tokens: string[], with_spec = spec) {
+  try {
+    parseArguments(tokens, with_spec);
+  } catch (e) {
+    assert.ok(e instanceof CliArgumentError);
+    return e.reason;
+  }
+  assert.fail(`Parsing ${tokens.join(' ')} should fail.`);
+}
+
+function testPositionals() {
+  assert.deepStrictEqual(parseArguments(['users'], spec), { collection: 'users', limit: 10, force: false, verbose: false });
+  assert.strictEqual(parseArguments(['users', '5'], spec).limit, 5);
+  // Negative numbers are values, not options
+  assert.strictEqual(parseArguments(['users', '-5'], spec).limit, -5);
+
+  assert.strictEqual(failure([]), 'missing');
+  assert.strictEqual(failure(['users', 'five']), 'invalid_type');
+  assert.strictEqual(failure(['users', '5', 'extra']), 'too_many');
+  assert.deepStrictEqual(parseArguments(['users', '5', 'extra'], { ...spec, strict: false })._, ['extra']);
+
+  const list: CliArgumentsSpec = { positional: [{ name: 'ids', type: 'list', items: 'number' }] };
+  assert.deepStrictEqual(parseArguments(['1,2', '3'], list), { ids: [1, 2, 3] });
+}
+
+function testOptions() {
+  assert.strictEqual(parseArguments(['users', '--force'], spec).force, true);
+  assert.strictEqual(parseArguments(['users', '--force=no'], spec).force, false);
+  assert.strictEqual(parseArguments(['users', '--no-force'], spec).force, false);
+
+  // Short booleans can be grouped
+  const grouped = parseArguments(['users', '-fv'], spec);
+  assert.strictEqual(grouped.force, true);
+  assert.strictEqual(grouped.verbose, true);
+  assert.strictEqual(failure(['users', '-fo']), 'unknown_option');
+
+  assert.strictEqual(parseArguments(['users', '-o', 'csv'], spec).format, 'csv');
+  assert.strictEqual(parseArguments(['users', '--format=json'], spec).format, 'json');
+  assert.strictEqual(failure(['users', '--format', 'xml']), 'invalid_choice');
+  assert.strictEqual(failure(['users', '--format']), 'missing');
+
+  assert.deepStrictEqual(parseArguments(['users', '--tags', 'a,b', '--tags', 'c'], spec).tags, ['a', 'b', 'c']);
+
+  assert.strictEqual(failure(['users', '--unknown']), 'unknown_option');
+  // After --, everything is positional
+  assert.strictEqual(parseArguments(['--', '--force'], spec).collection, '--force');
+}
+
+function testUsage() {
+  assert.strictEqual(
+    formatUsage(spec),
+    '<collection> [limit] [-f, --force] [-v, --verbose] [-o, --format <json|csv>] [--tags <list>]'
+  );
+}
+
+testPositionals();
+testOptions();
+testUsage();
+console.log('Arguments: all tests passed.');
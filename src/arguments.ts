@@ -0,0 +1,290 @@
+/**
+ * Type of a declared argument.
+ *
+ * - `string`: raw value
+ * - `number`: value converted with `Number()`, must not be `NaN`
+ * - `boolean`: flag for options, `true/false/yes/no/1/0` for positionals
+ * - `enum`: value must be one of `choices`
+ * - `list`: comma-separated values (or repeated option). For positionals, if last, takes every remaining value.
+ */
+export type CliArgumentType = 'string' | 'number' | 'boolean' | 'enum' | 'list';
+
+interface CliArgumentBase {
+  /** Type of the argument. Default to `string`. */
+  type?: CliArgumentType;
+  /** Short description, used in usage/help messages. */
+  description?: string;
+  /** If `true`, parsing fails if argument is missing and no default is set. */
+  required?: boolean;
+  /** Value to use when argument is not given. */
+  default?: any;
+  /** Allowed values, for `enum` arguments. */
+  choices?: string[];
+  /** Type of each item, for `list` arguments. Default to `string`. */
+  items?: 'string' | 'number';
+}
+
+export interface CliPositionalArgument extends CliArgumentBase {
+  /** Name of the argument, key of the parsed object. */
+  name: string;
+}
+
+export interface CliOptionArgument extends CliArgumentBase {
+  /** Single-letter alias, used as `-s`. */
+  short?: string;
+}
+
+/**
+ * Declarative specification of the arguments accepted by a command.
+ */
+export interface CliArgumentsSpec {
+  /** Positional arguments, in order. */
+  positional?: CliPositionalArgument[];
+  /** Named options, usable as `--name value`, `--name=value` or `-s value` if `short` is set. Keys are the long names. */
+  options?: { [name: string]: CliOptionArgument };
+  /** If `true` (default), unknown options and extra positional values are rejected. */
+  strict?: boolean;
+}
+
+/**
+ * Parsed arguments, by name. Positional values that are not declared
+ * (when `strict` is `false`) are stored in `_`.
+ */
+export type CliParsedArguments = { [name: string]: any, _?: string[] };
+
+export type CliArgumentErrorReason = 'missing' | 'invalid_type' | 'invalid_choice' | 'unknown_option' | 'too_many';
+
+/**
+ * Thrown when the {rest} of a command does not match its argument spec.
+ */
+export class CliArgumentError extends Error {
+  name = 'CliArgumentError';
+  /** Usage of the command that failed to parse, set by the listener. */
+  usage?: string;
+
+  constructor(
+    message: string,
+    public reason: CliArgumentErrorReason,
+    public argument?: string,
+    public value?: string,
+  ) {
+    super(message);
+  }
+}
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1', 'on'];
+const FALSE_VALUES = ['false', 'no', 'n', '0', 'off'];
+
+function convertSingle(value: string, type: 'string' | 'number' | 'boolean', name: string) {
+  if (type === 'number') {
+    const n = Number(value);
+    if (value.trim() === '' || Number.isNaN(n)) {
+      throw new CliArgumentError(`Argument ${name} must be a number, got "${value}".`, 'invalid_type', name, value);
+    }
+    return n;
+  }
+  if (type === 'boolean') {
+    const lower = value.toLowerCase();
+    if (TRUE_VALUES.includes(lower)) {
+      return true;
+    }
+    if (FALSE_VALUES.includes(lower)) {
+      return false;
+    }
+    throw new CliArgumentError(`Argument ${name} must be a boolean, got "${value}".`, 'invalid_type', name, value);
+  }
+  return value;
+}
+
+function convert(values: string[], spec: CliArgumentBase, name: string) : any {
+  const type = spec.type ?? 'string';
+
+  if (type === 'list') {
+    const items = values
+      .flatMap(e => e.split(','))
+      .filter(e => e.length);
+    return items.map(e => convertSingle(e, spec.items ?? 'string', name));
+  }
+
+  // Last given value wins
+  const value = values[values.length - 1];
+
+  if (type === 'enum') {
+    if (!spec.choices?.includes(value)) {
+      throw new CliArgumentError(
+        `Argument ${name} must be one of ${(spec.choices ?? []).join(', ')}, got "${value}".`,
+        'invalid_choice', name, value
+      );
+    }
+    return value;
+  }
+
+  return convertSingle(value, type, name);
+}
+
+/**
+ * Parse already splitted {tokens} following {spec}.
+ *
+ * Throws a `CliArgumentError` if tokens does not match the spec.
+ */
+export function parseArguments(tokens: string[], spec: CliArgumentsSpec) : CliParsedArguments {
+  const strict = spec.strict ?? true;
+  const options = spec.options ?? {};
+  const positional_spec = spec.positional ?? [];
+
+  const short_to_long = new Map<string, string>();
+  for (const [name, option] of Object.entries(options)) {
+    if (option.short) {
+      short_to_long.set(option.short, name);
+    }
+  }
+
+  const given_options = new Map<string, string[]>();
+  const positionals: string[] = [];
+
+  const pushOption = (name: string, value: string) => {
+    if (!given_options.has(name)) {
+      given_options.set(name, []);
+    }
+    given_options.get(name)!.push(value);
+  };
+  const isBoolean = (name: string) => options[name]?.type === 'boolean';
+
+  let only_positionals = false;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    if (only_positionals || token === '-' || !token.startsWith('-') || /^-\d/.test(token)) {
+      positionals.push(token);
+      continue;
+    }
+    if (token === '--') {
+      only_positionals = true;
+      continue;
+    }
+
+    let names: string[];
+    let inline_value: string | undefined;
+
+    if (token.startsWith('--')) {
+      const eq = token.indexOf('=');
+      let name = eq === -1 ? token.slice(2) : token.slice(2, eq);
+      inline_value = eq === -1 ? undefined : token.slice(eq + 1);
+
+      if (!(name in options) && name.startsWith('no-') && isBoolean(name.slice(3)) && inline_value === undefined) {
+        name = name.slice(3);
+        inline_value = 'false';
+      }
+      names = [name];
+    }
+    else {
+      // -abc is -a -b -c if they're all booleans
+      const letters = token.slice(1).split('');
+      names = letters.map(l => short_to_long.get(l) ?? l);
+
+      if (names.length > 1 && !names.every(isBoolean)) {
+        throw new CliArgumentError(`Unknown option ${token}.`, 'unknown_option', token);
+      }
+    }
+
+    for (const name of names) {
+      if (!(name in options)) {
+        if (strict) {
+          throw new CliArgumentError(`Unknown option ${token}.`, 'unknown_option', name);
+        }
+        continue;
+      }
+
+      if (isBoolean(name)) {
+        pushOption(name, inline_value ?? 'true');
+      }
+      else if (inline_value !== undefined) {
+        pushOption(name, inline_value);
+      }
+      else if (i + 1 < tokens.length) {
+        pushOption(name, tokens[++i]);
+      }
+      else {
+        throw new CliArgumentError(`Option --${name} requires a value.`, 'missing', name);
+      }
+    }
+  }
+
+  const parsed: CliParsedArguments = {};
+
+  for (const [index, arg] of positional_spec.entries()) {
+    const is_last = index === positional_spec.length - 1;
+    let values: string[];
+
+    if (arg.type === 'list' && is_last) {
+      values = positionals.splice(0, positionals.length);
+    }
+    else {
+      values = positionals.length ? [positionals.shift()!] : [];
+    }
+
+    if (values.length) {
+      parsed[arg.name] = convert(values, arg, arg.name);
+    }
+    else if (arg.default !== undefined) {
+      parsed[arg.name] = arg.default;
+    }
+    else if (arg.required) {
+      throw new CliArgumentError(`Missing required argument <${arg.name}>.`, 'missing', arg.name);
+    }
+  }
+
+  if (positionals.length) {
+    if (strict) {
+      throw new CliArgumentError(`Too many arguments: ${positionals.join(' ')}.`, 'too_many', undefined, positionals[0]);
+    }
+    parsed._ = positionals;
+  }
+
+  for (const [name, option] of Object.entries(options)) {
+    const values = given_options.get(name);
+
+    if (values) {
+      parsed[name] = convert(values, option, `--${name}`);
+    }
+    else if (option.default !== undefined) {
+      parsed[name] = option.default;
+    }
+    else if (option.type === 'boolean') {
+      parsed[name] = false;
+    }
+    else if (option.required) {
+      throw new CliArgumentError(`Missing required option --${name}.`, 'missing', name);
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Format a one-line usage string for {spec}, like `<name> [count] [--force] [-o, --output <string>]`.
+ */
+export function formatUsage(spec: CliArgumentsSpec) {
+  const parts: string[] = [];
+
+  for (const arg of spec.positional ?? []) {
+    const label = arg.type === 'list' ? `${arg.name}...` : arg.name;
+    parts.push(arg.required ? `<${label}>` : `[${label}]`);
+  }
+
+  for (const [name, option] of Object.entries(spec.options ?? {})) {
+    let label = option.short ? `-${option.short}, --${name}` : `--${name}`;
+
+    if (option.type === 'enum') {
+      label += ` <${(option.choices ?? []).join('|')}>`;
+    }
+    else if (option.type !== 'boolean') {
+      label += ` <${option.type ?? 'string'}>`;
+    }
+
+    parts.push(option.required ? label : `[${label}]`);
+  }
+
+  return parts.join(' ');
+}
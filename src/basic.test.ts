@@ -57,9 +57,10 @@ const pies = get_command.command('pies', () => {
   return `Available pies are:\n${getPies().map(e => e.name).join('\n')}`;
 });
 
-// You can get what's after matched command with the first parameter
-pies.command('add', async rest => {
-  const added_pie = await addPie({ name: rest });
+// You can get what's after matched command with the first parameter,
+// or its words (with quotes resolved) in context.tokens: get pies add "apple pie"
+pies.command('add', async (rest, stack, matches, validator_state, context) => {
+  const added_pie = await addPie({ name: context.tokens.join(' ') });
   // You can return plain objects!
   return added_pie;
 });
@@ -0,0 +1,63 @@
+import { CliExecutionResult } from './CliHelper';
+
+export interface CliBatchOptions {
+  /** Stop at the first command that fails. Default to `false`. */
+  stopOnError?: boolean;
+  /** Write results and errors of commands, like in interactive mode. Default to `true`. */
+  print?: boolean;
+  /** Name of the source (file name...), used in error locations. Default to `input`. */
+  name?: string;
+}
+
+export interface CliBatchResult {
+  /** Results of the executed commands, in order. */
+  results: CliExecutionResult[];
+  /** Number of failed commands. */
+  failed: number;
+  /** `true` if execution stopped before the end because of `stopOnError`. */
+  stopped: boolean;
+  /** `0` if every command succeeded, `1` otherwise. */
+  exitCode: number;
+}
+
+export interface CliBatchCommand {
+  /** Command to execute, with continued lines joined. */
+  line: string;
+  /** Number of the (first) line of the command, starting at 1. */
+  number: number;
+}
+
+/**
+ * Read commands from raw {lines}: empty lines and comments (starting with `#`) are skipped,
+ * and lines ending with `\` are joined with the next one.
+ */
+export async function* readCommands(lines: Iterable<string> | AsyncIterable<string>) : AsyncGenerator<CliBatchCommand> {
+  let buffer = '';
+  let first_number = 0;
+  let number = 0;
+
+  for await (const raw of lines) {
+    number++;
+
+    if (!buffer) {
+      first_number = number;
+      if (!raw.trim() || raw.trim().startsWith('#')) {
+        continue;
+      }
+    }
+
+    const line = buffer + raw;
+
+    if (line.endsWith('\\')) {
+      buffer = line.slice(0, line.length - 1) + ' ';
+      continue;
+    }
+
+    buffer = '';
+    yield { line, number: first_number };
+  }
+
+  if (buffer.trim()) {
+    yield { line: buffer, number: first_number };
+  }
+}
@@ -0,0 +1,43 @@
+import assert from 'assert';
+import CliHelper from '.';
+
+// Run with: node build/chaining.test.js
+
+const cli = new CliHelper({ onNoMatch: 'Command not found.', headless: true });
+
+cli.command('echo', rest => rest);
+cli.command('fail', () => new Error('Failed.'));
+cli.command('pies', () => ['apple', 'banana', 'cherry pie']);
+
+/** Results of every command run by {line}: values, or error messages. */
+async function results(line: string) {
+  const results: any[] = [];
+  await cli.execute(line, { onResult: result => results.push(result.error ? result.error.message : result.value) });
+  return results;
+}
+
+async function testChaining() {
+  assert.deepStrictEqual(await results('echo a; fail; echo b'), ['a', 'Failed.', 'b']);
+  assert.deepStrictEqual(await results('fail && echo a || echo b'), ['Failed.', 'b']);
+  // Skipped commands keep the status of the last executed one
+  assert.deepStrictEqual(await results('echo a || echo b && echo c'), ['a', 'c']);
+  assert.strictEqual((await cli.execute('echo a &&')).error?.message, 'Missing command after "&&".');
+  assert.strictEqual((await cli.execute('echo "a; b"')).value, '"a; b"');
+}
+
+async function testAliases() {
+  // Operators of a definition run when the alias is used
+  assert.deepStrictEqual(await results('alias both = echo a; echo b'), ['both = echo a; echo b']);
+  assert.deepStrictEqual(await results('both'), ['a', 'b']);
+  assert.deepStrictEqual(await results('alias upper = "pies | grep -i $1"'), ['upper = pies | grep -i $1']);
+  assert.deepStrictEqual(await results('upper CHERRY'), [['cherry pie']]);
+}
+
+(async () => {
+  await testChaining();
+  await testAliases();
+  console.log('Chaining: all tests passed.');
+})().catch(e => {
+  console.error(e);
+  process.exit(1);
+});
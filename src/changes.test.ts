@@ -0,0 +1,37 @@
+import assert from 'assert';
+import { PassThrough } from 'stream';
+import CliHelper from '.';
+
+// Run with: node build/changes.test.js
+
+function testChanges() {
+  const cli = new CliHelper({ onNoMatch: 'Command not found.', headless: true });
+  cli.command(/.+/, 'any');
+
+  // Lookups fall back on RegExp names, removals do not
+  assert.ok(cli.getSubCommand('hello'));
+  assert.strictEqual(cli.removeCommand('hello'), undefined);
+  assert.throws(() => cli.replaceCommand('hello', 'hi'), /does not exist/);
+  assert.ok(cli.removeCommand(/.+/));
+
+  const changes: string[] = [];
+  cli.addChangeListener(change => {
+    changes.push(`${change.type} ${[...change.path, change.names[0]].join(' ')}`);
+    if (change.names[0] === 'first') {
+      cli.command('second', 'second');
+    }
+  });
+
+  cli.command('first', 'first');
+  const self = cli.command('self', 'self');
+  self.command('self', self);
+  self.command('sub', 'sub');
+
+  const session = cli.createSession({ input: new PassThrough(), output: new PassThrough() });
+  session.command('third', 'third');
+
+  assert.deepStrictEqual(changes, ['add first', 'add second', 'add self', 'add self self', 'add self sub', 'add third']);
+}
+
+testChanges();
+console.log('Changes: all tests passed.');
@@ -1,6 +1,8 @@
 import 'reflect-metadata';
-import CliHelper, { CliExecutor, CliSuggestor, CliListener, CliValidator } from ".";
+import CliHelper, { CliExecutor, CliSuggestor, CliListener, CliValidator, CliExecutionResult, CliMiddleware } from ".";
 import { LISTENER_KEY, PROPERTY_METADATA_KEY } from "./helpers";
+import { CliArgumentsSpec } from "./arguments";
+import { toChoices, CliChoice, CliConfirmOptions, CliPasswordOptions, CliNumberOptions, CliSelectOptions, CliMultiSelectOptions } from "./prompts";
 
 export interface CliMainProps {
   onNoMatch: CliExecutor;
@@ -8,24 +10,36 @@ export interface CliMainProps {
   onSuggest?: CliSuggestor;
   onClose?: () => void;
   onError?: (err: Error) => void;
+  onQuestion?: (question: string) => string | Promise<string>;
+  middlewares?: CliMiddleware[];
 }
 
 export interface CliCommandProps {
   executor: CliExecutor;
   onSuggest?: CliSuggestor;
   onValidateBefore?: CliValidator;
+  args?: CliArgumentsSpec;
+  description?: string;
+  usage?: string;
+  middlewares?: CliMiddleware[];
+  roles?: string[];
+  permissions?: string[];
+  hidden?: boolean;
+  timeout?: number;
+  confirm?: boolean | string;
+  priority?: number;
 }
 
 export type CliMainClass<T> = { 
   new (...args: any[]): CliMainInstance<T>, 
 } & T;
-export type CliMainInstance<T> = CliMainProps & { listen(): void, question(question: string): Promise<string>, [LISTENER_KEY]: CliHelper } & T;
+export type CliMainInstance<T> = CliMainProps & { listen(): void, question(question: string): Promise<string>, execute(line: string): Promise<CliExecutionResult>, [LISTENER_KEY]: CliHelper } & Pick<CliHelper, 'confirm' | 'password' | 'number' | 'select' | 'multiselect'> & T;
 
 export type CliCommandClass<T> = { 
   new (...args: any[]): CliCommandInstance<T>;
 } & T;
 export type CliCommandInstance<T, K = undefined> = CliCommandProps & { [LISTENER_KEY]: CliListener, parent: K } & T;
-export type CliLocalCommandOptions = { onValidateBefore?: string | symbol | CliValidator, onSuggest?: string | symbol | CliSuggestor };
+export type CliLocalCommandOptions = { onValidateBefore?: string | symbol | CliValidator, onSuggest?: string | symbol | CliSuggestor, args?: CliArgumentsSpec, description?: string, usage?: string, middlewares?: CliMiddleware[], roles?: string[], permissions?: string[], hidden?: boolean, timeout?: number, confirm?: boolean | string, priority?: number };
 
 interface ISingleCommandMetadata {
   name: string | RegExp;
@@ -47,6 +61,35 @@ export class CliBase {
     return "";
   }
 
+  async confirm(message: string, options?: CliConfirmOptions) {
+    return false;
+  }
+
+  async password(message: string, options?: CliPasswordOptions) {
+    return "";
+  }
+
+  async number(message: string, options?: CliNumberOptions) {
+    return 0;
+  }
+
+  async select<T = string>(message: string, choices: Array<string | CliChoice<T>>, options?: CliSelectOptions<T>) : Promise<T> {
+    const [first] = toChoices(choices);
+
+    if (!first) {
+      throw new Error(`Unable to ask "${message}": there's no option.`);
+    }
+    return first.value;
+  }
+
+  async multiselect<T = string>(message: string, choices: Array<string | CliChoice<T>>, options?: CliMultiSelectOptions<T>) : Promise<T[]> {
+    return [];
+  }
+
+  async execute(line: string) : Promise<CliExecutionResult> {
+    return { line, stack: [], duration: 0, outputMode: 'text' };
+  }
+
   close() {}
 }
 
@@ -81,9 +124,26 @@ function constructListenersFromObject(obj: any) {
       obj[key] = listener;
     }
   }
+
+  // Keep decorated properties in sync when their commands are removed or replaced at runtime
+  (obj[LISTENER_KEY] as CliListener).addChangeListener(change => {
+    if (change.path.length || change.type === 'add') {
+      return;
+    }
+
+    for (const key of Reflect.ownKeys(metadata)) {
+      const value = obj[key];
+      const listener = value instanceof CliListener ? value : value?.[LISTENER_KEY];
+      const target = change.type === 'remove' ? change.listener : change.previous;
+
+      if (listener && listener === target) {
+        obj[key] = change.type === 'remove' ? undefined : change.listener;
+      }
+    }
+  });
 }
 
-export function CliMain(opts?: { suggestions?: boolean }) {
+export function CliMain(opts?: { suggestions?: boolean, headless?: boolean }) {
   return function CliMain<T extends { new (...args: any[]): CliMainProps }>(Initial: T) : CliMainClass<T> {
     // @ts-ignore
     return class extends Initial {
@@ -98,6 +158,9 @@ export function CliMain(opts?: { suggestions?: boolean }) {
           onCliError: this.onError?.bind(this),
           suggestions: opts?.suggestions ?? true,
           onSuggest: this.onSuggest?.bind(this),
+          headless: opts?.headless ?? false,
+          onQuestion: this.onQuestion?.bind(this),
+          middlewares: this.middlewares,
         });
         
         constructListenersFromObject(this);
@@ -111,6 +174,30 @@ export function CliMain(opts?: { suggestions?: boolean }) {
         return this[LISTENER_KEY].question(question);
       }
 
+      confirm(message: string, options?: CliConfirmOptions) {
+        return this[LISTENER_KEY].confirm(message, options);
+      }
+
+      password(message: string, options?: CliPasswordOptions) {
+        return this[LISTENER_KEY].password(message, options);
+      }
+
+      number(message: string, options?: CliNumberOptions) {
+        return this[LISTENER_KEY].number(message, options);
+      }
+
+      select<T = string>(message: string, choices: Array<string | CliChoice<T>>, options?: CliSelectOptions<T>) {
+        return this[LISTENER_KEY].select(message, choices, options);
+      }
+
+      multiselect<T = string>(message: string, choices: Array<string | CliChoice<T>>, options?: CliMultiSelectOptions<T>) {
+        return this[LISTENER_KEY].multiselect(message, choices, options);
+      }
+
+      execute(line: string) {
+        return this[LISTENER_KEY].execute(line);
+      }
+
       close() {
         return this[LISTENER_KEY].close();
       }
@@ -131,6 +218,16 @@ export function CliCommand() {
         this[LISTENER_KEY] = new CliListener(this.executor, {
           onSuggest: this.onSuggest?.bind(this),
           onValidateBefore: this.onValidateBefore?.bind(this),
+          args: this.args,
+          description: this.description,
+          usage: this.usage,
+          middlewares: this.middlewares,
+          roles: this.roles,
+          permissions: this.permissions,
+          hidden: this.hidden,
+          timeout: this.timeout,
+          confirm: this.confirm,
+          priority: this.priority,
         });
   
         constructListenersFromObject(this);
@@ -0,0 +1,64 @@
+import { CliFormatted } from './renderers';
+
+/**
+ * Items of a value piped into a filter: elements of arrays and tables, non-empty lines of strings.
+ * Other values are a single item.
+ */
+export function toItems(input: any) : any[] {
+  if (input === undefined || input === null) {
+    return [];
+  }
+  if (Array.isArray(input)) {
+    return input;
+  }
+  if (input instanceof CliFormatted) {
+    return Array.isArray(input.data) ? input.data : [input.data];
+  }
+  if (typeof input === 'string') {
+    return input.split('\n').filter(e => e.trim());
+  }
+  return [input];
+}
+
+/**
+ * Build a value of the same kind as {input} (table, lines...) from filtered {items}.
+ */
+export function fromItems(input: any, items: any[]) : any {
+  if (input instanceof CliFormatted && Array.isArray(input.data)) {
+    return new CliFormatted(input.format, items, input.columns);
+  }
+  if (typeof input === 'string') {
+    return items.join('\n');
+  }
+  return items;
+}
+
+/**
+ * Text of {item}, to search in it.
+ */
+export function itemText(item: any) : string {
+  return typeof item === 'string' ? item : JSON.stringify(item);
+}
+
+/**
+ * Get the value at {path} in {item}, like `.user.name` or `items[0].id`.
+ * Returns `undefined` if a part of the path does not exist.
+ */
+export function pickPath(item: any, path: string) : any {
+  const keys = path.replace(/\[(\d+)\]/g, '.$1').split('.').filter(e => e);
+
+  return keys.reduce((value, key) => value === undefined || value === null ? undefined : value[key], item);
+}
+
+/**
+ * Compare two values to sort them: numbers numerically, other values as text.
+ */
+export function compareValues(a: any, b: any) {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+  if (a === undefined || b === undefined) {
+    return a === b ? 0 : (a === undefined ? 1 : -1);
+  }
+  return itemText(a).localeCompare(itemText(b), undefined, { numeric: true });
+}
@@ -0,0 +1,157 @@
+import { CliListener } from "./CliListener";
+import { CliIdentity } from "./permissions";
+import { tokenize, quoteToken } from "./tokenizer";
+
+const PADDING = 3;
+const PAD_START = "    ";
+const INDENT = "  ";
+
+/**
+ * Readable label of a command name. `RegExp` are shown as `<pattern>`, without their anchors.
+ */
+export function formatCommandName(name: string | RegExp) {
+  if (typeof name === 'string') {
+    return name;
+  }
+  return '<' + name.source.replace(/^\^/, '').replace(/\$$/, '') + '>';
+}
+
+/**
+ * Find the listener at {path}, from {root}: the words of {path} are resolved like a line (see `CliListener.findSubCommand()`),
+ * and each matched command should be one {identity} is allowed to run.
+ *
+ * Returns the found listener and the labels of the matched commands, or `undefined` if path does not exist.
+ */
+export function findCommand(root: CliListener, path: string[], identity?: CliIdentity) {
+  let current = root;
+  let rest = path.map(e => quoteToken(e)).join(' ');
+  const labels: string[] = [];
+
+  while (rest) {
+    const found = current.findSubCommand(rest);
+
+    // A RegExp that matches nothing does not lead anywhere
+    if (!found || !found.listener.canAccess(identity) || found.rest.length >= rest.length) {
+      return undefined;
+    }
+
+    labels.push(typeof found.item === 'string' ? found.item : found.item[1][0]);
+    current = found.listener;
+    rest = found.rest;
+  }
+
+  return { listener: current, labels };
+}
+
+function commandRows(listener: CliListener, depth: number, seen: Set<CliListener>, identity?: CliIdentity) : [string, string][] {
+  const rows: [string, string][] = [];
+
+  for (const { names, listener: sub } of listener.getVisibleSubCommands(identity)) {
+    const usage = sub.usage;
+    const label = INDENT.repeat(depth) + names.map(formatCommandName).join(', ') + (usage ? ' ' + usage : '');
+
+    rows.push([label, sub.description ?? '']);
+
+    // A listener can be registered in multiple places: do not loop
+    if (!seen.has(sub)) {
+      seen.add(sub);
+      rows.push(...commandRows(sub, depth + 1, seen, identity));
+      seen.delete(sub);
+    }
+  }
+
+  return rows;
+}
+
+/**
+ * Generate the help of the command tree under {root}, or of the sub-tree at {path}.
+ * Only the commands {identity} can see are shown.
+ */
+export function formatHelpTree(root: CliListener, path: string[] = [], identity?: CliIdentity) {
+  const found = findCommand(root, path, identity);
+
+  if (!found) {
+    return `No command found for "${path.join(' ')}".`;
+  }
+
+  const { listener, labels } = found;
+  const lines: string[] = [];
+
+  if (labels.length) {
+    const usage = listener.usage;
+    lines.push(labels.join(' ') + (usage ? ' ' + usage : ''));
+    if (listener.description) {
+      lines.push(PAD_START + listener.description);
+    }
+  }
+  else {
+    lines.push('Available commands:');
+  }
+
+  const rows = commandRows(listener, 0, new Set([listener]), identity);
+
+  if (rows.length) {
+    const size = Math.max(...rows.map(e => e[0].length)) + PADDING;
+
+    for (const [label, description] of rows) {
+      lines.push((PAD_START + (description ? label.padEnd(size, " ") + description : label)).trimRight());
+    }
+  }
+  else if (!labels.length) {
+    lines.push(PAD_START + 'No command available.');
+  }
+
+  return '\n' + lines.join('\n');
+}
+
+/**
+ * Dump the command tree under {root} as it is resolved, to find conflicts between commands.
+ * 
+ * At each level, names are listed in the order they're tried: `string` names first (most words first),
+ * then `RegExp`, by priority. Ambiguous sibling commands are reported below them, with a `!`.
+ * Hidden and restricted commands are included.
+ */
+export function formatResolvedTree(root: CliListener) {
+  const lines: string[] = [];
+
+  const walk = (listener: CliListener, depth: number, seen: Set<CliListener>) => {
+    const entries = listener.getSubCommands()
+      .flatMap((command, order) => command.names.map(name => ({ name, listener: command.listener, order })))
+      .sort((a, b) => {
+        const a_words = typeof a.name === 'string' ? tokenize(a.name).length : 0;
+        const b_words = typeof b.name === 'string' ? tokenize(b.name).length : 0;
+
+        return (b_words - a_words) || (b.listener.priority - a.listener.priority) || (a.order - b.order);
+      });
+    const listed = new Map<CliListener, string>();
+
+    for (const { name, listener: sub } of entries) {
+      const label = formatCommandName(name);
+      const notes = [
+        sub.priority ? `priority ${sub.priority}` : '',
+        sub.hidden ? 'hidden' : '',
+        sub.roles?.length ? `roles: ${sub.roles.join(', ')}` : '',
+        sub.permissions?.length ? `permissions: ${sub.permissions.join(', ')}` : '',
+        listed.has(sub) ? `same as ${listed.get(sub)}` : '',
+      ].filter(e => e);
+
+      lines.push(INDENT.repeat(depth) + label + (notes.length ? `  (${notes.join(', ')})` : ''));
+
+      // Sub-commands are listed once, under the first name; a listener can be registered inside itself
+      if (!listed.has(sub) && !seen.has(sub)) {
+        walk(sub, depth + 1, new Set(seen).add(sub));
+      }
+      if (!listed.has(sub)) {
+        listed.set(sub, label);
+      }
+    }
+
+    for (const ambiguity of listener.getAmbiguities()) {
+      lines.push(INDENT.repeat(depth) + '! ' + ambiguity.message);
+    }
+  };
+
+  walk(root, 0, new Set([root]));
+
+  return '\n' + (lines.length ? lines.join('\n') : 'No command available.');
+}
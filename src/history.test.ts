@@ -0,0 +1,75 @@
+import assert from 'assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PassThrough } from 'stream';
+import CliHelper, { CliHistory } from '.';
+
+// Run with: node build/history.test.js
+
+function testEntries() {
+  const history = new CliHistory({ size: 3, ignoreDuplicates: true });
+
+  for (const line of ['get pies', 'get ponies', '  ', 'get pies', 'add\npie', 'count']) {
+    history.add(line);
+  }
+  // Empty lines are skipped, duplicates removed, and only the last entries are kept
+  assert.deepStrictEqual(history.entries, ['get pies', 'add pie', 'count']);
+  assert.strictEqual(history.get(1), 'get pies');
+  assert.strictEqual(history.get(-1), 'count');
+  assert.strictEqual(history.get(4), undefined);
+  assert.deepStrictEqual(history.search('pie'), [[1, 'get pies'], [2, 'add pie']]);
+}
+
+function testExpand() {
+  const history = new CliHistory({ size: 100, ignoreDuplicates: false });
+  history.add('get pies');
+  history.add('get ponies');
+
+  assert.strictEqual(history.expand('!!'), 'get ponies');
+  assert.strictEqual(history.expand('!1'), 'get pies');
+  assert.strictEqual(history.expand('!-2 --json'), 'get pies --json');
+  assert.strictEqual(history.expand('get !1'), 'get !1');
+  assert.throws(() => history.expand('!3'), /History entry 3 not found/);
+}
+
+async function testFile() {
+  const file = path.join(os.tmpdir(), `cli-helper-history-${process.pid}`);
+
+  try {
+    fs.writeFileSync(file, 'one\ntwo\nthree\n');
+    const history = new CliHistory({ file, size: 2, ignoreDuplicates: false });
+
+    // Loading truncates the file to the maximum size
+    history.load();
+    assert.deepStrictEqual(history.entries, ['two', 'three']);
+    assert.strictEqual(fs.readFileSync(file, 'utf8'), 'two\nthree\n');
+
+    await history.add('four');
+    assert.strictEqual(fs.readFileSync(file, 'utf8'), 'two\nthree\nfour\n');
+
+    // Sessions do not read nor write the history of the host
+    const cli = new CliHelper({ onNoMatch: 'Command not found.', headless: true, historyFile: file });
+    const input = new PassThrough();
+    const session = cli.createSession({ input, output: new PassThrough(), terminal: false });
+    session.listen();
+    input.write('get pies\n');
+    await new Promise(resolve => setTimeout(resolve, 50));
+    session.close();
+
+    assert.deepStrictEqual(session.history.entries, ['get pies']);
+    assert.strictEqual(fs.readFileSync(file, 'utf8'), 'two\nthree\nfour\n');
+  } finally {
+    fs.rmSync(file, { force: true });
+  }
+}
+
+(async () => {
+  testEntries();
+  testExpand();
+  await testFile();
+  console.log('History: all tests passed.');
+})().catch(e => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,114 @@
+import fs from 'fs';
+
+export interface CliHistoryOptions {
+  /** File where entries are loaded from and appended to. If not set, history only lives in memory. */
+  file?: string;
+  /** Maximum number of kept entries. */
+  size: number;
+  /** Remove older entries that are equal to a new one. */
+  ignoreDuplicates: boolean;
+}
+
+/**
+ * Entered lines of a CLI, optionally persisted in a file (one entry per line).
+ *
+ * Entries are numbered from 1 (oldest kept entry).
+ */
+export class CliHistory {
+  /** Entries, oldest first. */
+  entries: string[] = [];
+
+  constructor(protected options: CliHistoryOptions) {}
+
+  /**
+   * Load entries from the history file, if any.
+   * If the file contains more entries than the maximum size, it is truncated.
+   */
+  load() {
+    const file = this.options.file;
+    if (!file || !fs.existsSync(file)) {
+      return;
+    }
+
+    const lines = fs.readFileSync(file, 'utf-8').split('\n').filter(e => e.trim());
+    this.entries = [];
+
+    for (const line of lines) {
+      this.push(line);
+    }
+
+    if (lines.length > this.entries.length) {
+      fs.writeFileSync(file, this.entries.map(e => e + '\n').join(''));
+    }
+  }
+
+  protected push(line: string) {
+    if (this.options.ignoreDuplicates) {
+      this.entries = this.entries.filter(e => e !== line);
+    }
+
+    this.entries.push(line);
+
+    if (this.entries.length > this.options.size) {
+      this.entries.splice(0, this.entries.length - this.options.size);
+    }
+  }
+
+  /**
+   * Add {line} to history, and append it to the history file.
+   */
+  add(line: string) : Promise<void> {
+    line = line.replace(/\n/g, ' ');
+    if (!line.trim()) {
+      return Promise.resolve();
+    }
+
+    this.push(line);
+
+    const file = this.options.file;
+    if (!file) {
+      return Promise.resolve();
+    }
+    return fs.promises.appendFile(file, line + '\n');
+  }
+
+  /**
+   * Get the entry at {index} (starting at 1). Negative indexes are relative to the end (`-1` is the last entry).
+   */
+  get(index: number) : string | undefined {
+    if (index < 0) {
+      return this.entries[this.entries.length + index];
+    }
+    return this.entries[index - 1];
+  }
+
+  /**
+   * Get the entries that contains {text}, with their index.
+   */
+  search(text: string) : [number, string][] {
+    return this.entries
+      .map((e, i) => [i + 1, e] as [number, string])
+      .filter(e => e[1].includes(text));
+  }
+
+  /**
+   * Replace a `!n`, `!-n` or `!!` line by the history entry it refers to.
+   * Other lines are returned unchanged.
+   *
+   * Throws if the referred entry does not exist.
+   */
+  expand(line: string) : string {
+    const match = line.trim().match(/^!(!|-?\d+)(\s.*)?$/);
+    if (!match) {
+      return line;
+    }
+
+    const index = match[1] === '!' ? -1 : Number(match[1]);
+    const entry = this.get(index);
+
+    if (entry === undefined) {
+      throw new Error(`History entry ${match[1]} not found.`);
+    }
+    return entry + (match[2] ?? '');
+  }
+}
@@ -3,6 +3,12 @@
  * Matched item. If `string`: matched command, else, matched `RegExp` plus the match array.
  */
 export type CliStackItem = string | [RegExp, RegExpMatchArray]; 
+import { CliParsedArguments } from './arguments';
+import { CliListener } from './CliListener';
+import { CliSuggestion } from './suggestions';
+import { CliOutput } from './output';
+import { CliVariables } from './variables';
+
 /**
  * Function that should validate or not if the listener could be called.
  */
@@ -19,20 +25,136 @@ export type CliValidator = (rest: string, regex_matches: RegExpMatchArray | null
  * **{validator_state}** is defined if this listener is precedated by a validator. 
  * If it is `true`, validator is checked.
  * If `false`, then a **sub-command** that have a validator has failed its validation.
+ * 
+ * **{context}** holds informations about the current execution, like parsed arguments.
+ */
+export type CliExecutorFunction = (rest: string, stack: CliStackItem[], regex_matches: RegExpMatchArray | null, validator_state: boolean | undefined, context: CliExecutionContext) => any;
+/**
+ * State shared by all the listeners during the matching of one line.
+ */
+export interface CliMatchState {
+  /** Stack of the listener whose executor has been called. Set by the listener when it executes. */
+  stack?: CliStackItem[];
+  /** CLI instance (or session) that runs the line. */
+  cli?: CliHelper;
+  /** Listener whose executor has been called. Set by the listener when it executes. */
+  listener?: CliListener;
+  /** Sub-commands close to the unmatched rest of the executed listener. */
+  didYouMean?: string[];
+  /** Line being matched. Set by the first listener if not given. */
+  line?: string;
+  /** Middlewares of the listeners matched so far, parents first. */
+  middlewares?: CliMiddleware[];
+  /** Signal that cancels the execution when aborted. */
+  signal?: AbortSignal;
+  /** Timeout of the deepest matched listener that has one, in milliseconds. */
+  timeout?: number;
+  /** Called with each value yielded by an executor that returns an async iterable. */
+  onItem?: (item: any) => void;
+  /** Set to `true` by the listener if its executor returned an async iterable. */
+  streamed?: boolean;
+  /** Value returned by the previous command of the pipeline, when a filter is matched. */
+  input?: any;
+}
+/**
+ * Informations given to an executor about its execution.
  */
-export type CliExecutorFunction = (rest: string, stack: CliStackItem[], regex_matches: RegExpMatchArray | null, validator_state?: boolean) => any;
+export interface CliExecutionContext {
+  /**
+   * Typed arguments parsed from {rest}, following the `args` spec given to `.command()`.
+   * Empty object if the listener has no argument spec.
+   */
+  args: CliParsedArguments;
+  /**
+   * Words of {rest}, with quotes and escapes resolved: `add "apple pie"` gives `['add', 'apple pie']`.
+   */
+  tokens: string[];
+  /**
+   * CLI instance (or session) that runs the command. Use it to ask questions or to print things
+   * to the right user when multiple sessions are open. `undefined` if `.match()` is called directly.
+   */
+  cli?: CliHelper;
+  /**
+   * If {rest} looks like a mistyped sub-command of this listener, the sub-commands that are close to it.
+   */
+  didYouMean?: string[];
+  /**
+   * Aborted when the command is cancelled (Ctrl+C) or times out. Give it to `fetch()`, streams, timers...
+   * or check `signal.aborted` to stop the work: the CLI does not wait for the executor once it is aborted.
+   */
+  signal: AbortSignal;
+  /**
+   * Write lines, warnings, progress bars or spinners while the command runs.
+   * Executors can also return an async iterable (like an `async function*`): each value is written as soon as it is yielded.
+   */
+  output: CliOutput;
+  /**
+   * Variables of the CLI (or session) that runs the command, expanded in lines with `$name`.
+   * Executors can read them, or set them for the next lines.
+   */
+  variables: CliVariables;
+  /**
+   * For filters (after `|`), the value returned by the previous command. `undefined` otherwise.
+   */
+  input?: any;
+}
 /**
  * Function to return suggestions from a given string.
+ * Return `CliSuggestion` objects to give a description or a priority to suggestions.
+ */
+export type CliSuggestor = (rest: string, stack: CliStackItem[]) => Array<string | CliSuggestion> | Promise<Array<string | CliSuggestion>>;
+/**
+ * Informations about a command execution, given to middlewares.
+ */
+export interface CliInvocation {
+  /** Matched line. */
+  line: string;
+  /** Rest of the line after the matched commands, given to the executor. */
+  rest: string;
+  /** Matched commands until the executed listener. */
+  stack: CliStackItem[];
+  /** Regular expression matches of the executed listener. `null` if it is matched by a string. */
+  matches: RegExpMatchArray | null;
+  /** State of the validator of the executed listener (see `CliExecutorFunction`). */
+  validatorState: boolean | undefined;
+  /** Context given to the executor. Middlewares can add things to it before calling `next()`. */
+  context: CliExecutionContext;
+  /** Listener whose executor is called. */
+  listener: CliListener;
+}
+/**
+ * Function called around the executor of a matched command.
+ * 
+ * **{next}** runs the next middleware (then the executor) and resolves to the result, or rejects with what the executor throws.
+ * The middleware returns the result: the one of `next()`, or anything else to replace it.
+ * Not calling `next()` prevents the execution.
  */
-export type CliSuggestor = (rest: string, stack: CliStackItem[]) => string[] | Promise<string[]>;
+export type CliMiddleware = (invocation: CliInvocation, next: () => Promise<any>) => any;
 /**
  * Valid object as executor. Can be a function (see `CliExecutorFunction`), a raw string or object.
  */
 export type CliExecutor = CliExecutorFunction | string | object;
 
+export * from './arguments';
+export * from './tokenizer';
 export * from './CliHelper';
 export * from './CliListener';
 export * from './decorators';
+export * from './help';
+export * from './history';
+export * from './batch';
+export * from './aliases';
+export * from './suggestions';
+export * from './permissions';
+export * from './abort';
+export * from './jobs';
+export * from './output';
+export * from './prompts';
+export * from './variables';
+export * from './filters';
+export * from './plugins';
+export * from './renderers';
+export * from './CliServer';
 
 import CliHelper from './CliHelper';
 export default CliHelper;
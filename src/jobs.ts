@@ -0,0 +1,116 @@
+import { CliExecutionResult } from './CliHelper';
+
+export type CliJobState = 'running' | 'done' | 'failed' | 'cancelled';
+
+/**
+ * A line executed in the background (ended with `&`).
+ */
+export interface CliJob {
+  /** Number of the job, starting at 1. */
+  id: number;
+  /** Executed line, without the `&`. */
+  line: string;
+  state: CliJobState;
+  /** Date the job has been started. */
+  started: Date;
+  /** Date the job has settled. */
+  ended?: Date;
+  /** Results of the executed commands, in order. */
+  results: CliExecutionResult[];
+  /** Resolves with the result of the last executed command when the job settles. */
+  promise: Promise<CliExecutionResult>;
+  /** Aborts the job. */
+  controller: AbortController;
+  /** Report results when the job settles. Set to `false` when something else waits for them (`fg`, `wait`). */
+  notify: boolean;
+}
+
+/**
+ * Background jobs of a CLI (or a session).
+ *
+ * Settled jobs are kept until they are reported: by a notification, the `jobs` built-in, `fg` or `wait`.
+ */
+export class CliJobs {
+  protected jobs = new Map<number, CliJob>();
+  protected last_id = 0;
+
+  /**
+   * Start a job that runs {line} with {run}. {run} gets a signal to abort, and should never reject.
+   */
+  start(line: string, run: (signal: AbortSignal, job: CliJob) => Promise<CliExecutionResult>) : CliJob {
+    const controller = new AbortController();
+    const job: CliJob = {
+      id: ++this.last_id,
+      line,
+      state: 'running',
+      started: new Date,
+      results: [],
+      controller,
+      notify: true,
+      // Started on next tick, so {run} gets the complete job
+      promise: Promise.resolve().then(() => run(controller.signal, job)).then(result => {
+        job.ended = new Date;
+        job.state = controller.signal.aborted ? 'cancelled' : (result.error ? 'failed' : 'done');
+        return result;
+      }),
+    };
+
+    this.jobs.set(job.id, job);
+    return job;
+  }
+
+  /**
+   * Jobs, oldest first.
+   */
+  list() : CliJob[] {
+    return [...this.jobs.values()];
+  }
+
+  /**
+   * Get the job {id}, or the last started one if {id} is not given.
+   */
+  get(id?: number) : CliJob | undefined {
+    if (id === undefined) {
+      const jobs = this.list();
+      return jobs[jobs.length - 1];
+    }
+    return this.jobs.get(id);
+  }
+
+  /**
+   * Abort the job {id}. Returns `false` if the job does not exist or has already settled.
+   */
+  kill(id: number) {
+    const job = this.jobs.get(id);
+
+    if (!job || job.state !== 'running') {
+      return false;
+    }
+    job.controller.abort();
+    return true;
+  }
+
+  /**
+   * Wait for the jobs {ids} (or every running job) to settle, and forget them.
+   */
+  async wait(ids?: number[]) : Promise<CliJob[]> {
+    const jobs = ids ? ids.map(id => this.jobs.get(id)).filter((e): e is CliJob => !!e) : this.list();
+
+    for (const job of jobs) {
+      job.notify = false;
+    }
+    await Promise.all(jobs.map(e => e.promise));
+
+    for (const job of jobs) {
+      this.jobs.delete(job.id);
+    }
+    return jobs;
+  }
+
+  /**
+   * Forget the job {id}.
+   */
+  remove(id: number) {
+    return this.jobs.delete(id);
+  }
+}
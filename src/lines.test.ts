@@ -0,0 +1,66 @@
+import assert from 'assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PassThrough } from 'stream';
+import CliHelper from '.';
+
+// Run with: node build/lines.test.js
+
+const cli = new CliHelper({ onNoMatch: 'Command not found.', headless: true, allowRedirection: true });
+
+cli.command('echo', rest => rest);
+cli.command('fail', () => new Error('Failed.'));
+cli.command('pies', () => ['apple', 'banana', 'cherry pie']);
+
+/** Results of every command run by {line}: values, or error messages. */
+async function results(line: string, helper = cli) {
+  const results: any[] = [];
+  await helper.execute(line, { onResult: result => results.push(result.error ? result.error.message : result.value) });
+  return results;
+}
+
+async function testPipelines() {
+  assert.deepStrictEqual(await results('pies | grep an'), [['banana']]);
+  assert.deepStrictEqual(await results('pies | grep -v an | head -n 1'), [['apple']]);
+  assert.deepStrictEqual(await results('pies | count'), [3]);
+  assert.deepStrictEqual(await results('echo a | nope'), ['Unknown filter "nope".']);
+  assert.deepStrictEqual(await results('echo a |'), ['Missing filter after "|".']);
+
+  // Operators inside a word, or quoted, are arguments
+  assert.deepStrictEqual(await results('echo a|b c>d'), ['a|b c>d']);
+  assert.deepStrictEqual(await results('echo "a | b"'), ['"a | b"']);
+}
+
+async function testRedirection() {
+  const file = path.join(os.tmpdir(), `cli-helper-${process.pid}.txt`);
+
+  try {
+    const result = await cli.execute(`echo first > ${file}`);
+    assert.strictEqual(result.redirect, file);
+    assert.strictEqual(fs.readFileSync(file, 'utf8'), 'first\n');
+
+    await cli.execute(`pies | head -n 1 >> ${file} --json`);
+    assert.deepStrictEqual(JSON.parse(fs.readFileSync(file, 'utf8').slice('first\n'.length)), ['apple']);
+
+    assert.deepStrictEqual(await results(`echo a > ${file} b`), [`Expected a single file after ">", at the end of the line.`]);
+
+    // Not inherited by sessions: redirected lines fail, unless > is quoted
+    fs.unlinkSync(file);
+    const session = cli.createSession({ input: new PassThrough(), output: new PassThrough() });
+    assert.deepStrictEqual(await results(`echo second > ${file}`, session), ['Output redirection is disabled: quote ">" to give it to the command.']);
+    assert.deepStrictEqual(await results(`echo second ">>" ${file}`, session), [`second ">>" ${file}`]);
+    assert.ok(!fs.existsSync(file));
+  } finally {
+    fs.rmSync(file, { force: true });
+  }
+}
+
+(async () => {
+  await testPipelines();
+  await testRedirection();
+  console.log('Lines: all tests passed.');
+})().catch(e => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,66 @@
+import assert from 'assert';
+import CliHelper, { findCommand } from '.';
+
+// Run with: node build/matching.test.js
+
+const warnings: string[] = [];
+process.on('warning', warning => {
+  if (warning.name === 'CliAmbiguityWarning') {
+    warnings.push(warning.message);
+  }
+});
+
+async function value(cli: CliHelper, line: string) {
+  const result = await cli.execute(line);
+  return result.error ? result.error.message : result.value;
+}
+
+async function testMatchPriority() {
+  const cli = new CliHelper({ onNoMatch: 'Command not found.', headless: true });
+
+  cli.command(/^\d+$/, 'order');
+  cli.command('42', 'exact');
+  cli.command(/^\d+$/, 'invoice', { priority: 1 });
+  cli.command('get', 'get');
+  cli.command('get all', 'get all');
+  cli.command(/^g\w+/, 'g');
+  cli.command(/^gr/, 'gr');
+
+  assert.strictEqual(await value(cli, '42'), 'exact');
+  assert.strictEqual(await value(cli, '7'), 'invoice');
+  assert.strictEqual(await value(cli, 'get all'), 'get all');
+  assert.strictEqual(await value(cli, 'get some'), 'get');
+  assert.strictEqual(await value(cli, 'great'), 'g');
+
+  const found = cli.findSubCommand('get all users');
+  assert.strictEqual(found?.item, 'get all');
+  assert.strictEqual(found?.rest, 'users');
+
+  // Only real ties are reported: exact words always win over a RegExp
+  await new Promise(resolve => setImmediate(resolve));
+  assert.deepStrictEqual(warnings, ['<\\d+> is registered twice: the second one is used.']);
+}
+
+function testHelpResolution() {
+  const cli = new CliHelper({ onNoMatch: 'Command not found.', headless: true });
+  const tools = cli.command(/^t\w*/, 'tools');
+  const diag = tools.command('diag', 'diag');
+  cli.command(/^to/, 'to');
+  cli.command('admin', 'admin', { roles: ['admin'] });
+
+  // Same resolution as lines: the longest match is used
+  assert.strictEqual(findCommand(cli, ['tools', 'diag'])?.listener, diag);
+  assert.deepStrictEqual(findCommand(cli, ['tools', 'diag'])?.labels, ['tools', 'diag']);
+  assert.strictEqual(findCommand(cli, ['nope']), undefined);
+  assert.strictEqual(findCommand(cli, ['admin']), undefined);
+  assert.ok(findCommand(cli, ['admin'], { roles: ['admin'] }));
+}
+
+(async () => {
+  await testMatchPriority();
+  testHelpResolution();
+  console.log('Matching: all tests passed.');
+})().catch(e => {
+  console.error(e);
+  process.exit(1);
+});
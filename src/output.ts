@@ -0,0 +1,223 @@
+import util from 'util';
+import { Writable } from 'stream';
+
+/**
+ * Where an output context writes. Given by the CLI that runs the command.
+ */
+export interface CliOutputTarget {
+  /** Write a line. */
+  print(text: string): void;
+  /** Write a line to the error output. */
+  printError(text: string): void;
+  /** Stream where lines can be updated in place, or `undefined` if it is not possible (not a TTY, prompt shown...). */
+  inPlace(): NodeJS.WritableStream | undefined;
+}
+
+/**
+ * A spinner started with `output.spinner()`.
+ */
+export interface CliSpinner {
+  /** Change the text next to the spinner. */
+  update(label: string): void;
+  /** Stop and remove the spinner. If {text} is given, it is written instead. */
+  stop(text?: string): void;
+}
+
+const SPINNER_FRAMES = ['|', '/', '-', '\\'];
+const PROGRESS_SIZE = 20;
+
+/**
+ * Output context of a running command, given to executors in `context.output`.
+ *
+ * Lines are written right away. On a TTY, the status line (progress bar, spinner) is updated in place,
+ * below the written lines. Otherwise, status updates are written as plain lines (progress every 10%).
+ */
+export class CliOutput {
+  /** Status line currently shown in place. */
+  protected status_line = '';
+  /** Last status written as a plain line. */
+  protected last_status?: string;
+  protected spinners = new Set<NodeJS.Timeout>();
+
+  constructor(protected target: CliOutputTarget) {}
+
+  protected clearStatus(stream: NodeJS.WritableStream | undefined) {
+    if (stream && this.status_line) {
+      stream.write('\r\x1b[K');
+    }
+  }
+
+  protected drawStatus(stream: NodeJS.WritableStream | undefined) {
+    if (stream && this.status_line) {
+      stream.write(this.status_line);
+    }
+  }
+
+  /**
+   * Write a line, formatted like `console.log` does.
+   */
+  log(...data: any[]) {
+    const stream = this.target.inPlace();
+
+    this.clearStatus(stream);
+    this.target.print(util.format(...data as [any, ...any[]]));
+    this.drawStatus(stream);
+  }
+
+  /**
+   * Write a warning to the error output.
+   */
+  warn(...data: any[]) {
+    const stream = this.target.inPlace();
+
+    this.clearStatus(stream);
+    this.target.printError('Warning: ' + util.format(...data as [any, ...any[]]));
+    this.drawStatus(stream);
+  }
+
+  /**
+   * Show {text} in the status line, replacing the previous status.
+   */
+  status(text: string) {
+    const stream = this.target.inPlace();
+
+    if (stream) {
+      this.clearStatus(stream);
+      this.status_line = text;
+      this.drawStatus(stream);
+    }
+    else if (text !== this.last_status) {
+      this.last_status = text;
+      this.target.print(text);
+    }
+  }
+
+  /**
+   * Show a progress bar in the status line: {current} out of {total}.
+   */
+  progress(current: number, total: number, label = '') {
+    const ratio = total > 0 ? Math.max(0, Math.min(1, current / total)) : 0;
+    const percent = Math.floor(ratio * 100);
+    const prefix = label ? label + ' ' : '';
+
+    if (this.target.inPlace()) {
+      const filled = Math.round(ratio * PROGRESS_SIZE);
+      this.status(`${prefix}[${'#'.repeat(filled)}${'-'.repeat(PROGRESS_SIZE - filled)}] ${percent}%`);
+    }
+    else {
+      // Only write steps of 10%
+      this.status(`${prefix}${Math.floor(percent / 10) * 10}%`);
+    }
+  }
+
+  /**
+   * Show a spinner with {label} in the status line, until it is stopped.
+   */
+  spinner(label: string) : CliSpinner {
+    let frame = 0;
+    const draw = () => this.status(this.target.inPlace() ? `${SPINNER_FRAMES[frame++ % SPINNER_FRAMES.length]} ${label}` : label);
+    const timer = setInterval(draw, 100);
+
+    this.spinners.add(timer);
+    draw();
+
+    return {
+      update: (new_label: string) => {
+        label = new_label;
+        draw();
+      },
+      stop: (text?: string) => {
+        clearInterval(timer);
+        this.spinners.delete(timer);
+        this.clearStatus(this.target.inPlace());
+        this.status_line = '';
+
+        if (text !== undefined) {
+          this.log(text);
+        }
+      },
+    };
+  }
+
+  /**
+   * Stop spinners and remove the status line. Called by the CLI when the command ends.
+   */
+  end() {
+    for (const timer of this.spinners) {
+      clearInterval(timer);
+    }
+    this.spinners.clear();
+
+    this.clearStatus(this.target.inPlace());
+    this.status_line = '';
+    this.last_status = undefined;
+  }
+}
+
+/**
+ * Stream given to readline, that writes to {target}. While {mask} is set, typed characters are replaced by it:
+ * everything written after {prefix} (the question), except the escape sequences that move the cursor.
+ */
+export class CliMaskableOutput extends Writable {
+  /** Character shown instead of each typed character, or `undefined` to show them. */
+  mask?: string;
+  /** Text written before the typed characters, shown as-is when readline writes the whole line again. */
+  prefix = '';
+
+  constructor(protected target: NodeJS.WritableStream) {
+    super({ decodeStrings: false });
+    // readline reads the size of the terminal
+    target.on('resize', () => this.emit('resize'));
+  }
+
+  get columns() : number | undefined {
+    return 'columns' in this.target && typeof this.target.columns === 'number' ? this.target.columns : undefined;
+  }
+
+  get rows() : number | undefined {
+    return 'rows' in this.target && typeof this.target.rows === 'number' ? this.target.rows : undefined;
+  }
+
+  protected hide(text: string) {
+    return text.replace(/\x1b\[[\d;]*[A-Za-z]|[^\r\n]/g, e => e.length > 1 ? e : this.mask!);
+  }
+
+  _write(chunk: string | Buffer, _encoding: string, callback: (error?: Error | null) => void) {
+    let text = String(chunk);
+
+    if (this.mask !== undefined) {
+      text = text.startsWith(this.prefix) ? this.prefix + this.hide(text.slice(this.prefix.length)) : this.hide(text);
+    }
+
+    this.target.write(text);
+    callback();
+  }
+}
+
+/**
+ * Check if {value} is an async iterable (like the result of an `async function*`).
+ */
+export function isAsyncIterable(value: any) : value is AsyncIterable<any> {
+  return value !== null && value !== undefined && typeof value[Symbol.asyncIterator] === 'function';
+}
+
+/**
+ * Read every value of {iterable}, giving them to {onItem} as soon as they come.
+ * Stops reading when {signal} is aborted.
+ *
+ * Returns the read values.
+ */
+export async function readStream(iterable: AsyncIterable<any>, signal: AbortSignal, onItem?: (item: any) => void) {
+  const items: any[] = [];
+
+  for await (const item of iterable) {
+    if (signal.aborted) {
+      break;
+    }
+
+    items.push(item);
+    onItem?.(item);
+  }
+
+  return items;
+}
@@ -0,0 +1,40 @@
+/**
+ * Who uses a CLI (or a session). Compared to the `roles` and `permissions` required by commands.
+ */
+export interface CliIdentity {
+  /** Name of the user, for logs and audit. */
+  name?: string;
+  /** Roles of the user. A command that requires roles is allowed if the user has one of them. */
+  roles?: string[];
+  /** Permissions of the user. A command that requires permissions is allowed if the user has all of them. */
+  permissions?: string[];
+}
+
+/**
+ * Returned when a command is matched, but the identity of the CLI is not allowed to run it.
+ * Given to the `onCliError` handler, like other errors.
+ */
+export class CliPermissionError extends Error {
+  name = 'CliPermissionError';
+
+  constructor(
+    /** Denied command, as it has been typed. */
+    public command: string,
+  ) {
+    super(`Permission denied: you are not allowed to run "${command}".`);
+  }
+}
+
+/**
+ * Check if {identity} fulfills the {roles} (one of them) and {permissions} (all of them) requirements.
+ * Without identity, only commands without requirements are allowed.
+ */
+export function hasAccess(identity: CliIdentity | undefined, roles?: string[], permissions?: string[]) {
+  if (roles?.length && !roles.some(role => identity?.roles?.includes(role))) {
+    return false;
+  }
+  if (permissions?.length && !permissions.every(permission => identity?.permissions?.includes(permission))) {
+    return false;
+  }
+  return true;
+}
@@ -0,0 +1,96 @@
+import assert from 'assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import CliHelper, { CliPluginError } from '.';
+
+// Run with: node build/plugins.test.js
+
+async function value(cli: CliHelper, line: string) {
+  const result = await cli.execute(line);
+  return result.error ? result.error.message : result.value;
+}
+
+/** Conflicts of the `CliPluginError` thrown when using {plugin}. */
+async function conflicts(cli: CliHelper, plugin: Parameters<CliHelper['use']>[0]) {
+  try {
+    await cli.use(plugin);
+  } catch (e) {
+    assert.ok(e instanceof CliPluginError);
+    return e.conflicts;
+  }
+  assert.fail(`Using plugin ${plugin.name} should fail.`);
+}
+
+async function testConflicts() {
+  const cli = new CliHelper({ onNoMatch: 'Command not found.', headless: true });
+  const tools = cli.command(/^t\w*/, 'tools');
+  tools.command('ping', 'ping');
+  tools.command(/^m\w+/, 'memory');
+
+  // A created mount command would be used instead of a RegExp that matches it
+  assert.deepStrictEqual(await conflicts(cli, { name: 'mount', mount: 'tools diag', commands: [] }), ['tools']);
+  assert.strictEqual(cli.getSubCommand('tools', true), undefined);
+
+  // Commands are compared with the siblings of their mount command, found by its exact name
+  cli.command('tools', tools);
+  assert.deepStrictEqual(await conflicts(cli, {
+    name: 'commands',
+    mount: 'tools',
+    commands: [
+      { name: '"ping"', executor: 'ping' },
+      { name: 'memory', executor: 'memory' },
+      { name: /^p/, executor: 'p' },
+      { name: /^m\w+/, executor: 'm' },
+      { name: 'stats', executor: 'stats' },
+    ],
+  }), ['"ping"', 'memory', '<p>', '<m\\w+>']);
+  assert.strictEqual(tools.getSubCommand('stats'), undefined);
+
+  await cli.use({ name: 'stats', mount: 'tools', commands: [{ name: 'stats', executor: 'stats' }] });
+  assert.strictEqual(await value(cli, 'tools stats'), 'stats');
+  assert.strictEqual(await value(cli, 'tools memory'), 'memory');
+}
+
+async function testPluginRollback() {
+  const cli = new CliHelper({ onNoMatch: 'Command not found.', headless: true });
+  const unloaded: string[] = [];
+
+  await assert.rejects(cli.use({
+    name: 'broken',
+    mount: 'tools diag',
+    commands: [{ name: 'memory', executor: 'memory' }],
+    onLoad: () => { throw new Error('Load failed.'); },
+    onUnload: () => { unloaded.push('broken'); },
+  }), /Load failed/);
+  assert.deepStrictEqual(cli.getPlugins(), []);
+  assert.strictEqual(cli.getSubCommand('tools'), undefined);
+  assert.deepStrictEqual(unloaded, []);
+
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'cli-helper-plugins-'));
+  try {
+    fs.writeFileSync(path.join(directory, 'a.js'), `module.exports = { name: 'a', commands: [{ name: 'ping', executor: 'a' }] };`);
+    fs.writeFileSync(path.join(directory, 'b.js'), `module.exports = { name: 'b', commands: [{ name: 'ping', executor: 'b' }] };`);
+    // Not a plugin: skipped
+    fs.writeFileSync(path.join(directory, 'config.js'), `module.exports = { name: 'config' };`);
+
+    await assert.rejects(cli.loadPlugins(directory), CliPluginError);
+    assert.deepStrictEqual(cli.getPlugins(), []);
+    assert.strictEqual(cli.getSubCommand('ping'), undefined);
+
+    fs.unlinkSync(path.join(directory, 'b.js'));
+    assert.deepStrictEqual((await cli.loadPlugins(directory)).map(e => e.name), ['a']);
+    assert.strictEqual(await value(cli, 'ping'), 'a');
+  } finally {
+    fs.rmSync(directory, { recursive: true, force: true });
+  }
+}
+
+(async () => {
+  await testConflicts();
+  await testPluginRollback();
+  console.log('Plugins: all tests passed.');
+})().catch(e => {
+  console.error(e);
+  process.exit(1);
+});
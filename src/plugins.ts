@@ -0,0 +1,81 @@
+import { CliExecutor, CliMiddleware } from '.';
+import { CliListener, CliListenerOptions } from './CliListener';
+import CliHelper from './CliHelper';
+
+/**
+ * A command of a plugin: a functional one (executor or listener, with options),
+ * or a class decorated with `@CliCommand()`.
+ */
+export type CliPluginCommand = {
+  name: string | RegExp | Array<string | RegExp>;
+  executor: CliExecutor | CliListener;
+  options?: CliListenerOptions;
+} | {
+  name: string | RegExp | Array<string | RegExp>;
+  command: { new (): any };
+};
+
+/**
+ * A set of commands packaged to be registered with `cli.use()`.
+ */
+export interface CliPlugin {
+  /** Unique name of the plugin. */
+  name: string;
+  /** Description of the plugin, also given to the mount command if it is created. */
+  description?: string;
+  /**
+   * Path of the command where commands are registered: `'tools diag'` or `['tools', 'diag']`.
+   * Missing commands of the path are created, and show the help of their sub-commands.
+   * Default to the root of the CLI.
+   */
+  mount?: string | string[];
+  /**
+   * Commands of the plugin, or a function that registers them on {root} (the mount command) with `root.command()`.
+   * Required for plugins discovered by `cli.loadPlugins()`.
+   */
+  commands?: CliPluginCommand[] | ((root: CliListener, cli: CliHelper) => void);
+  /** Middlewares added to each command of the plugin. */
+  middlewares?: CliMiddleware[];
+  /** Called when the plugin has been registered. */
+  onLoad?: (cli: CliHelper) => void | Promise<void>;
+  /** Called when the plugin has been removed with `cli.unuse()`. */
+  onUnload?: (cli: CliHelper) => void | Promise<void>;
+}
+
+/**
+ * Thrown by `cli.use()` when a plugin can not be registered: its name is already used,
+ * or its commands conflict with the ones registered at its mount path.
+ * Nothing is registered in this case.
+ */
+export class CliPluginError extends Error {
+  name = 'CliPluginError';
+
+  constructor(
+    message: string,
+    /** Name of the plugin that can not be registered. */
+    public plugin: string,
+    /** Names of the conflicting commands. Empty if the error is not a conflict. */
+    public conflicts: string[] = [],
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Check if {value} (like the export of a module) is a plugin: it has a `name`, and `commands` (a list or a function).
+ */
+export function isPlugin(value: any) : value is CliPlugin {
+  return typeof value === 'object' && value !== null && typeof value.name === 'string' &&
+    (Array.isArray(value.commands) || typeof value.commands === 'function');
+}
+
+/**
+ * A plugin registered with `cli.use()`, and what it registered.
+ */
+export interface CliLoadedPlugin {
+  plugin: CliPlugin;
+  /** Command where its commands are registered. */
+  mount: CliListener;
+  /** Registered commands. */
+  commands: Array<{ names: Array<string | RegExp>, listener: CliListener }>;
+}
@@ -0,0 +1,160 @@
+/**
+ * An option of `select()` and `multiselect()` prompts.
+ */
+export interface CliChoice<T = string> {
+  /** Text shown to the user. Users can also type it to choose the option. */
+  title: string;
+  /** Value returned when the option is chosen. */
+  value: T;
+  /** Shown next to the title. */
+  description?: string;
+}
+
+export interface CliConfirmOptions {
+  /** Answer used when the user just presses enter. If not set, an explicit answer is required. */
+  default?: boolean;
+  /** Cancel the question when this signal is aborted (like `context.signal`, when the command times out). */
+  signal?: AbortSignal;
+}
+
+export interface CliPasswordOptions {
+  /** Character shown instead of each typed character on a terminal. Empty string to show nothing. Default to `*`. */
+  mask?: string;
+}
+
+export interface CliNumberOptions {
+  /** Answer used when the user just presses enter. */
+  default?: number;
+  min?: number;
+  max?: number;
+  /** Only accept integers. */
+  integer?: boolean;
+}
+
+export interface CliSelectOptions<T> {
+  /** Value of the option chosen when the user just presses enter (and initially highlighted). */
+  default?: T;
+}
+
+export interface CliMultiSelectOptions<T> {
+  /** Values of the options initially selected, and chosen when the user just presses enter. */
+  default?: T[];
+}
+
+/**
+ * Convert the `string` choices to `CliChoice` objects.
+ */
+export function toChoices<T>(choices: Array<string | CliChoice<T>>) : CliChoice<T>[] {
+  return choices.map(e => typeof e === 'string' ? { title: e, value: e as any as T } : e);
+}
+
+/**
+ * Lines of a numbered list of {choices}, for non-TTY prompts.
+ */
+export function formatChoices(choices: CliChoice<any>[]) {
+  const size = String(choices.length).length;
+
+  return choices.map((choice, i) =>
+    `  ${String(i + 1).padStart(size, ' ')}) ${choice.title}` + (choice.description ? `  ${choice.description}` : '')
+  );
+}
+
+/**
+ * Read a yes/no {answer}. Throws if it is not one.
+ */
+export function parseConfirm(answer: string, fallback?: boolean) : boolean {
+  const value = answer.trim().toLowerCase();
+
+  if (!value && fallback !== undefined) {
+    return fallback;
+  }
+  if (['y', 'yes'].includes(value)) {
+    return true;
+  }
+  if (['n', 'no'].includes(value)) {
+    return false;
+  }
+  throw new Error('Please answer yes or no.');
+}
+
+/**
+ * Read a number from {answer}, checking the constraints of {options}. Throws if it is not valid.
+ */
+export function parseNumber(answer: string, options: CliNumberOptions = {}) : number {
+  const value = answer.trim();
+
+  if (!value && options.default !== undefined) {
+    return options.default;
+  }
+
+  const n = Number(value);
+
+  if (!value || Number.isNaN(n)) {
+    throw new Error('Please enter a number.');
+  }
+  if (options.integer && !Number.isInteger(n)) {
+    throw new Error('Please enter an integer.');
+  }
+  if (options.min !== undefined && n < options.min) {
+    throw new Error(`Please enter a number greater than or equal to ${options.min}.`);
+  }
+  if (options.max !== undefined && n > options.max) {
+    throw new Error(`Please enter a number lower than or equal to ${options.max}.`);
+  }
+  return n;
+}
+
+/**
+ * Find the index of the choice designated by {word}: its number (starting at 1), or its title.
+ * Returns `-1` if there's none.
+ */
+function findChoice(word: string, choices: CliChoice<any>[]) {
+  const n = Number(word);
+
+  if (Number.isInteger(n) && n >= 1 && n <= choices.length) {
+    return n - 1;
+  }
+  return choices.findIndex(e => e.title.toLowerCase() === word.toLowerCase());
+}
+
+/**
+ * Read the index of the chosen option from {answer} (number or title).
+ * An empty answer chooses {fallback}, if it is not `-1`. Throws if no option matches.
+ */
+export function parseSelection(answer: string, choices: CliChoice<any>[], fallback = -1) : number {
+  const value = answer.trim();
+
+  if (!value && fallback !== -1) {
+    return fallback;
+  }
+
+  const index = findChoice(value, choices);
+  if (index === -1) {
+    throw new Error(`Please choose an option between 1 and ${choices.length}.`);
+  }
+  return index;
+}
+
+/**
+ * Read the indexes of the chosen options from {answer}: numbers or titles, separated by commas.
+ * An empty answer chooses {fallback}. Throws if an item does not match any option.
+ */
+export function parseMultiSelection(answer: string, choices: CliChoice<any>[], fallback: number[] = []) : number[] {
+  const value = answer.trim();
+
+  if (!value) {
+    return fallback;
+  }
+
+  const indexes = new Set<number>();
+  for (const word of value.split(',').map(e => e.trim()).filter(e => e)) {
+    const index = findChoice(word, choices);
+
+    if (index === -1) {
+      throw new Error(`Unknown option "${word}". Enter numbers between 1 and ${choices.length}, separated by commas.`);
+    }
+    indexes.add(index);
+  }
+
+  return [...indexes].sort((a, b) => a - b);
+}
@@ -0,0 +1,225 @@
+import util from 'util';
+
+/**
+ * How results are written. `text` is for humans, `json` for scripts.
+ */
+export type CliOutputMode = 'text' | 'json';
+
+export type CliFormat = 'table' | 'tree' | 'list' | 'json' | 'yaml';
+
+/**
+ * Value wrapped by an executor to choose how it should be displayed.
+ * Build it with `table()`, `tree()`, `keyValue()`, `json()` or `yaml()`.
+ */
+export class CliFormatted<T = any> {
+  constructor(public format: CliFormat, public data: T, public columns?: string[]) {}
+}
+
+/**
+ * Display {rows} as a table. Columns are the keys of the rows, unless {columns} is given.
+ */
+export function table(rows: object[], columns?: string[]) {
+  return new CliFormatted('table', rows, columns);
+}
+
+/**
+ * Display nested objects/arrays as a tree.
+ */
+export function tree(data: any) {
+  return new CliFormatted('tree', data);
+}
+
+/**
+ * Display an object as a list of `key: value` lines.
+ */
+export function keyValue(data: object) {
+  return new CliFormatted('list', data);
+}
+
+/**
+ * Display {data} as indented JSON, even in `text` mode.
+ */
+export function json(data: any) {
+  return new CliFormatted('json', data);
+}
+
+/**
+ * Display {data} in a YAML-like format.
+ */
+export function yaml(data: any) {
+  return new CliFormatted('yaml', data);
+}
+
+/**
+ * Renders a kind of value to a string.
+ * Renderers registered with `CliHelper.addRenderer()` are tried before the built-in ones.
+ */
+export interface CliRenderer {
+  /** Return `true` if this renderer handles {value} in {mode}. */
+  test(value: any, mode: CliOutputMode): boolean;
+  /** Render {value}. */
+  render(value: any, mode: CliOutputMode): string;
+}
+
+function isPlainObject(value: any) : value is object {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+function formatCell(value: any) {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+export function formatTable(rows: object[], columns?: string[]) {
+  if (!columns) {
+    const keys = new Set<string>();
+    for (const row of rows) {
+      Object.keys(row).forEach(k => keys.add(k));
+    }
+    columns = [...keys];
+  }
+
+  const cells = rows.map(row => columns!.map(col => formatCell((row as any)[col])));
+  const sizes = columns.map((col, i) => Math.max(col.length, ...cells.map(r => r[i].length)));
+  const line = (values: string[]) => values.map((v, i) => v.padEnd(sizes[i], ' ')).join('  ').trimRight();
+
+  return [
+    line(columns),
+    line(sizes.map(s => '-'.repeat(s))),
+    ...cells.map(line),
+  ].join('\n');
+}
+
+export function formatTree(data: any) : string {
+  const lines: string[] = [];
+
+  const walk = (value: any, prefix: string) => {
+    const entries: [string, any][] = Array.isArray(value) ?
+      value.map((e, i) => [String(i), e]) :
+      Object.entries(value);
+
+    entries.forEach(([key, child], i) => {
+      const last = i === entries.length - 1;
+      const branch = last ? '└─ ' : '├─ ';
+
+      if (typeof child === 'object' && child !== null) {
+        lines.push(prefix + branch + key);
+        walk(child, prefix + (last ? '   ' : '│  '));
+      }
+      else {
+        lines.push(prefix + branch + (Array.isArray(value) ? formatCell(child) : `${key}: ${formatCell(child)}`));
+      }
+    });
+  };
+
+  if (typeof data === 'object' && data !== null) {
+    walk(data, '');
+  }
+  else {
+    lines.push(formatCell(data));
+  }
+
+  return lines.join('\n');
+}
+
+export function formatKeyValue(data: object) {
+  const entries = Object.entries(data);
+  const size = Math.max(0, ...entries.map(e => e[0].length)) + 1;
+
+  return entries.map(([key, value]) => `${(key + ':').padEnd(size + 1, ' ')}${formatCell(value)}`).join('\n');
+}
+
+function yamlScalar(value: any) {
+  if (value === null || value === undefined) {
+    return 'null';
+  }
+  if (typeof value === 'string') {
+    return value === '' || /^[\s\-?:,[\]{}#&*!|>'"%@`]|:\s|\s#|\s$|^(true|false|null|~|[\d.+-]+)$/i.test(value) || value.includes('\n') ?
+      JSON.stringify(value) :
+      value;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return String(value);
+}
+
+export function formatYaml(data: any, indent = '') : string {
+  if (typeof data !== 'object' || data === null || data instanceof Date) {
+    return indent + yamlScalar(data);
+  }
+
+  const isEmpty = (v: any) => typeof v === 'object' && v !== null && !(v instanceof Date) && Object.keys(v).length === 0;
+  const isNested = (v: any) => typeof v === 'object' && v !== null && !(v instanceof Date) && !isEmpty(v);
+  const inline = (v: any) => isEmpty(v) ? (Array.isArray(v) ? '[]' : '{}') : yamlScalar(v);
+
+  if (Array.isArray(data)) {
+    if (!data.length) {
+      return indent + '[]';
+    }
+    return data.map(item => isNested(item) ?
+      `${indent}-\n${formatYaml(item, indent + '  ')}` :
+      `${indent}- ${inline(item)}`
+    ).join('\n');
+  }
+
+  const entries = Object.entries(data);
+  if (!entries.length) {
+    return indent + '{}';
+  }
+  return entries.map(([key, value]) => isNested(value) ?
+    `${indent}${key}:\n${formatYaml(value, indent + '  ')}` :
+    `${indent}${key}: ${inline(value)}`
+  ).join('\n');
+}
+
+function toJson(value: any) {
+  if (value instanceof Error) {
+    return JSON.stringify({ error: value.message }, null, 2);
+  }
+  return JSON.stringify(value instanceof CliFormatted ? value.data : value, null, 2) ?? 'null';
+}
+
+/**
+ * Renderers used when no registered renderer handles a value.
+ */
+export const DEFAULT_RENDERERS: CliRenderer[] = [
+  {
+    test: (_, mode) => mode === 'json',
+    render: toJson,
+  },
+  {
+    test: value => value instanceof CliFormatted,
+    render: (value: CliFormatted) => {
+      switch (value.format) {
+        case 'table': return formatTable(value.data, value.columns);
+        case 'tree': return formatTree(value.data);
+        case 'list': return formatKeyValue(value.data);
+        case 'yaml': return formatYaml(value.data);
+        default: return toJson(value.data);
+      }
+    },
+  },
+  {
+    // Arrays of records
+    test: value => Array.isArray(value) && value.length > 0 && value.every(isPlainObject),
+    render: value => formatTable(value),
+  },
+  {
+    test: value => typeof value === 'string',
+    render: value => value,
+  },
+  {
+    test: () => true,
+    render: value => util.inspect(value),
+  },
+];
@@ -0,0 +1,63 @@
+import assert from 'assert';
+import { PassThrough } from 'stream';
+import CliHelper from '.';
+
+// Run with: node build/scopes.test.js
+
+const cli = new CliHelper({ onNoMatch: 'Command not found.', headless: true });
+const db = cli.command('db', 'db', { description: 'Database' });
+const get = db.command('get', rest => `db get ${rest}`.trim(), { description: 'Get a collection' });
+get.command('users', 'users', { description: 'Get users' });
+db.command('set', 'db set');
+
+async function value(helper: CliHelper, line: string) {
+  const result = await helper.execute(line);
+  return result.error ? result.error.message : result.value;
+}
+
+/** Check that lines of {helper} are matched relative to `db get` once entered. */
+async function checkScope(helper: CliHelper) {
+  assert.strictEqual(helper.enter('db get'), true);
+  assert.deepStrictEqual(helper.scope, ['db', 'get']);
+
+  assert.strictEqual(await value(helper, 'users'), 'users');
+  assert.strictEqual(await value(helper, 'products'), 'db get products');
+  assert.strictEqual(await value(helper, '/db set'), 'db set');
+
+  // Built-ins work from everywhere, and help shows the current scope
+  const help = await value(helper, 'help');
+  assert.match(help, /^\ndb get\n/);
+  assert.match(help, /users +Get users/);
+
+  await helper.execute('..');
+  assert.deepStrictEqual(helper.scope, ['db']);
+  await helper.execute('/');
+  assert.deepStrictEqual(helper.scope, []);
+  assert.strictEqual(helper.enter('nope'), false);
+}
+
+async function testScopes() {
+  await checkScope(cli);
+
+  // A command that has the name of a built-in is used in its scope
+  const shadowing = new CliHelper({ onNoMatch: 'Command not found.', headless: true });
+  shadowing.command('tools', 'tools').command('history', 'tools history');
+  shadowing.enter('tools');
+  assert.strictEqual(await value(shadowing, 'history'), 'tools history');
+}
+
+async function testSessions() {
+  // Sessions do not register built-ins, but use the ones of their CLI
+  const session = cli.createSession({ input: new PassThrough(), output: new PassThrough() });
+  await checkScope(session);
+  assert.deepStrictEqual(cli.scope, []);
+}
+
+(async () => {
+  await testScopes();
+  await testSessions();
+  console.log('Scopes: all tests passed.');
+})().catch(e => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,27 @@
+import CliHelper from '.';
+
+const cli = new CliHelper({
+  onNoMatch: rest => `Command ${rest} not found.`,
+});
+
+cli.command('uptime', () => `Up since ${Math.round(process.uptime())} seconds.`, {
+  description: 'Show process uptime',
+});
+
+cli.command('whoami', async (rest, stack, matches, validator_state, context) => {
+  // Question is asked to the client that entered the command
+  const name = await context.cli!.question('What is your name? ');
+  return `Hello ${name}!`;
+});
+
+// Connect with: socat -,raw,echo=0 TCP:127.0.0.1:4000
+cli.serve({
+  port: 4000,
+  welcome: 'Welcome to the admin console. Type "help" to see available commands.',
+  async authenticate({ password }) {
+    return await password('Password: ') === 'admin';
+  },
+}).then(() => console.log('Admin console available on port 4000.'));
+
+// Local terminal still works
+cli.listen();
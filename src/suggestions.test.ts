@@ -0,0 +1,47 @@
+import assert from 'assert';
+import { closestValues, matchScore, rankSuggestions, toSuggestion } from '.';
+
+// Run with: node build/suggestions.test.js
+
+function testMatchScore() {
+  assert.strictEqual(matchScore('get', 'getPies'), 3);
+  assert.strictEqual(matchScore('PIE', 'getPies'), 2);
+  assert.strictEqual(matchScore('gps', 'getPies'), 1);
+  assert.strictEqual(matchScore('x', 'getPies'), 0);
+  // Single letters only match by prefix
+  assert.strictEqual(matchScore('p', 'getPies'), 0);
+}
+
+function testRank() {
+  const suggestions = [
+    toSuggestion('apple', 'value'),
+    toSuggestion({ value: 'pineapple', priority: 1 }, 'value'),
+    toSuggestion('grape', 'value'),
+    toSuggestion('papaya', 'value'),
+    toSuggestion('apple', 'command'),
+  ];
+
+  // Prefix first, then substring by priority, then fuzzy; duplicates merged
+  assert.deepStrictEqual(rankSuggestions('ap', suggestions).map(e => e.value), ['apple', 'pineapple', 'grape', 'papaya']);
+  assert.strictEqual(rankSuggestions('ap', suggestions)[0].kind, 'value');
+  assert.deepStrictEqual(rankSuggestions('zz', suggestions), []);
+}
+
+function testClosestValues() {
+  const commands = ['get', 'set', 'delete', 'database', 'history'];
+
+  assert.deepStrictEqual(closestValues('gt', commands), ['get']);
+  assert.deepStrictEqual(closestValues('delte', commands), ['delete']);
+  // Swapped letters are a single edit
+  assert.deepStrictEqual(closestValues('hsitory', commands), ['history']);
+  // Values starting with a long enough word are close
+  assert.deepStrictEqual(closestValues('data', commands), ['database']);
+  assert.deepStrictEqual(closestValues('ret', commands), ['get', 'set']);
+  assert.deepStrictEqual(closestValues('ret', commands, 1), ['get']);
+  assert.deepStrictEqual(closestValues('xyz', commands), []);
+}
+
+testMatchScore();
+testRank();
+testClosestValues();
+console.log('Suggestions: all tests passed.');
@@ -0,0 +1,129 @@
+export type CliSuggestionKind = 'command' | 'argument' | 'value';
+
+/**
+ * A completion candidate, with informations shown in the completion list.
+ */
+export interface CliSuggestion {
+  /** Value inserted when the suggestion is chosen. */
+  value: string;
+  /** Short description, shown next to the value in the completion list. */
+  description?: string;
+  /** What the value is. Default to `value` for suggestor results. */
+  kind?: CliSuggestionKind;
+  /** Suggestions with a higher priority are shown first. Default to `0`. */
+  priority?: number;
+}
+
+/**
+ * Candidates for the word being completed.
+ */
+export interface CliCompletion {
+  /** Raw word (with its quotes) that suggestions should replace. Empty if a new word is started. */
+  word: string;
+  /** Matching suggestions, best first. */
+  suggestions: CliSuggestion[];
+}
+
+export function toSuggestion(suggestion: string | CliSuggestion, kind: CliSuggestionKind) : CliSuggestion {
+  if (typeof suggestion === 'string') {
+    return { value: suggestion, kind };
+  }
+  return { kind, ...suggestion };
+}
+
+/**
+ * Score how {value} matches the typed {word}: `3` if it starts with it, `2` if it contains it (ignoring case),
+ * `1` if it contains its letters in order (fuzzy), `0` if it does not match.
+ * Words of one letter only match by prefix.
+ */
+export function matchScore(word: string, value: string) {
+  if (value.startsWith(word)) {
+    return 3;
+  }
+  if (word.length < 2) {
+    return 0;
+  }
+
+  const lower_word = word.toLowerCase();
+  const lower_value = value.toLowerCase();
+
+  if (lower_value.includes(lower_word)) {
+    return 2;
+  }
+
+  let position = 0;
+  for (const char of lower_word) {
+    position = lower_value.indexOf(char, position);
+    if (position === -1) {
+      return 0;
+    }
+    position++;
+  }
+  return 1;
+}
+
+/**
+ * Keep the {suggestions} that match {word}, best first: by match score, then priority, then registration order.
+ * Suggestions with the same value are merged (the first one wins).
+ */
+export function rankSuggestions(word: string, suggestions: CliSuggestion[]) : CliSuggestion[] {
+  const seen = new Set<string>();
+
+  return suggestions
+    .filter(e => {
+      if (!e.value || seen.has(e.value)) {
+        return false;
+      }
+      seen.add(e.value);
+      return true;
+    })
+    .map((suggestion, index) => ({ suggestion, index, score: matchScore(word, suggestion.value) }))
+    .filter(e => e.score > 0)
+    .sort((a, b) =>
+      (b.score - a.score) ||
+      ((b.suggestion.priority ?? 0) - (a.suggestion.priority ?? 0)) ||
+      (a.index - b.index)
+    )
+    .map(e => e.suggestion);
+}
+
+/**
+ * Edit distance between {a} and {b}, where swapping two adjacent letters counts as one edit.
+ */
+function distance(a: string, b: string) {
+  const rows = [Array.from({ length: b.length + 1 }, (_, i) => i)];
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        rows[i - 1][j] + 1,
+        current[j - 1] + 1,
+        rows[i - 1][j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], rows[i - 2][j - 2] + 1);
+      }
+    }
+    rows.push(current);
+  }
+
+  return rows[a.length][b.length];
+}
+
+/**
+ * Find the {values} that are close to {word} (typo, missing or extra letters), closest first.
+ * Used for "did you mean ...?" hints.
+ */
+export function closestValues(word: string, values: string[], max = 3) : string[] {
+  const threshold = Math.max(1, Math.floor(word.length / 3));
+
+  return values
+    .map(value => ({ value, distance: distance(word.toLowerCase(), value.toLowerCase()) }))
+    .filter(e => e.distance <= threshold || (word.length > 2 && e.value.startsWith(word)))
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, max)
+    .map(e => e.value);
+}
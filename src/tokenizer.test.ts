@@ -0,0 +1,67 @@
+import assert from 'assert';
+import { tokenize, matchTokens, quoteToken, splitOperators } from '.';
+
+// Run with: node build/tokenizer.test.js
+
+const values = (line: string) => tokenize(line).map(e => e.value);
+
+function testTokenize() {
+  assert.deepStrictEqual(values('  get   pies '), ['get', 'pies']);
+  assert.deepStrictEqual(values(`add "apple pie" 'it''s' apple\\ tart`), ['add', 'apple pie', 'its', 'apple tart']);
+  assert.deepStrictEqual(values(`say "a \\"quote\\" and \\\\" 'no \\escape'`), ['say', 'a "quote" and \\', 'no \\escape']);
+  // Quotes can be a part of a word
+  assert.deepStrictEqual(values(`--name="John Doe"`), ['--name=John Doe']);
+  assert.deepStrictEqual(values('trailing\\'), ['trailing\\']);
+  assert.deepStrictEqual(tokenize(''), []);
+
+  const [get, pie] = tokenize('get "apple pie');
+  assert.deepStrictEqual(get, { value: 'get', start: 0, end: 3, quoted: false, unterminated: false });
+  assert.deepStrictEqual(pie, { value: 'apple pie', start: 4, end: 14, quoted: true, unterminated: true });
+}
+
+function testMatchTokens() {
+  const tokens = tokenize('database  get users');
+
+  assert.strictEqual(matchTokens(tokens, 'database'), 8);
+  assert.strictEqual(matchTokens(tokens, 'database get'), 13);
+  assert.strictEqual(matchTokens(tokens, 'data'), -1);
+  assert.strictEqual(matchTokens(tokens, 'database get users all'), -1);
+  assert.strictEqual(matchTokens(tokens, ''), -1);
+  // Quoted words match their value
+  assert.strictEqual(matchTokens(tokenize('"apple pie" 2'), 'apple\\ pie'), 11);
+}
+
+function testQuoteToken() {
+  for (const value of ['apple pie', `it's "quoted"`, 'back\\slash', '']) {
+    assert.deepStrictEqual(values(quoteToken(value, "'") + ' x').slice(0, 1), [value]);
+    assert.deepStrictEqual(values(quoteToken(value, '"') + ' x').slice(0, 1), [value]);
+  }
+  assert.strictEqual(quoteToken('apple pie'), 'apple\\ pie');
+  assert.deepStrictEqual(values(quoteToken(`it's "quoted"`)), [`it's "quoted"`]);
+}
+
+function testSplitOperators() {
+  const operators = ['|', '>', '>>'];
+
+  assert.deepStrictEqual(splitOperators('get pies | grep a >> out.txt', operators), [
+    { text: 'get pies', operator: '|' },
+    { text: 'grep a', operator: '>>' },
+    { text: 'out.txt' },
+  ]);
+  // Quoted and escaped operators are kept, empty parts too
+  assert.deepStrictEqual(splitOperators(`say "a|b" 'c>d' e\\|f |`, operators), [
+    { text: `say "a|b" 'c>d' e\\|f`, operator: '|' },
+    { text: '' },
+  ]);
+  assert.deepStrictEqual(splitOperators('grep a|b', operators), [{ text: 'grep a', operator: '|' }, { text: 'b' }]);
+
+  // Standalone operators are separate words
+  assert.deepStrictEqual(splitOperators('grep a|b c>d', operators, true), [{ text: 'grep a|b c>d' }]);
+  assert.deepStrictEqual(splitOperators('a >>b > c', operators, true), [{ text: 'a >>b', operator: '>' }, { text: 'c' }]);
+}
+
+testTokenize();
+testMatchTokens();
+testQuoteToken();
+testSplitOperators();
+console.log('Tokenizer: all tests passed.');
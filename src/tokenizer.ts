@@ -0,0 +1,172 @@
+/**
+ * A word of a command line.
+ */
+export interface CliToken {
+  /** Unquoted and unescaped value. */
+  value: string;
+  /** Index of the first character of the token in the raw line (including its quotes). */
+  start: number;
+  /** Index after the last character of the token in the raw line (including its quotes). */
+  end: number;
+  /** `true` if a part of the token was quoted. */
+  quoted: boolean;
+  /** `true` if the line ended before the closing quote of the token. */
+  unterminated: boolean;
+}
+
+/**
+ * Split {line} into words, like a shell would do.
+ *
+ * - Words are delimited by whitespaces
+ * - `'single quotes'` keep their content as-is
+ * - `"double quotes"` keep their content, except for `\"` and `\\`
+ * - Outside quotes, a backslash escapes the next character (`apple\ pie` is one word)
+ *
+ * An unterminated quote is not an error: the token goes until the end of the line, and is marked `unterminated`.
+ */
+export function tokenize(line: string) : CliToken[] {
+  const tokens: CliToken[] = [];
+  let i = 0;
+
+  while (i < line.length) {
+    // Skip whitespaces between tokens
+    if (/\s/.test(line[i])) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    let value = '';
+    let quoted = false;
+    let unterminated = false;
+
+    while (i < line.length && !/\s/.test(line[i])) {
+      const char = line[i];
+
+      if (char === '\\') {
+        // Trailing backslash is kept
+        value += i + 1 < line.length ? line[i + 1] : char;
+        i += 2;
+      }
+      else if (char === "'" || char === '"') {
+        quoted = true;
+        i++;
+
+        while (i < line.length && line[i] !== char) {
+          if (char === '"' && line[i] === '\\' && (line[i + 1] === '"' || line[i + 1] === '\\')) {
+            i++;
+          }
+          value += line[i];
+          i++;
+        }
+
+        if (i >= line.length) {
+          unterminated = true;
+        }
+        // Skip closing quote
+        i++;
+      }
+      else {
+        value += char;
+        i++;
+      }
+    }
+
+    tokens.push({ value, start, end: Math.min(i, line.length), quoted, unterminated });
+  }
+
+  return tokens;
+}
+
+/**
+ * Check if the words of {matcher} are the first tokens of {tokens}.
+ *
+ * Returns the index in the raw line where the matched part ends, or `-1` if it does not match.
+ */
+export function matchTokens(tokens: CliToken[], matcher: string) : number {
+  const expected = tokenize(matcher).map(e => e.value);
+
+  if (!expected.length) {
+    return -1;
+  }
+
+  if (tokens.length >= expected.length && expected.every((word, i) => tokens[i].value === word)) {
+    return tokens[expected.length - 1].end;
+  }
+
+  return -1;
+}
+
+/**
+ * Quote {value} if needed, so that `tokenize` gives it back as a single word.
+ * 
+ * If {quote} is given (the user already opened a quote), the value is wrapped in it.
+ * Else, special characters are escaped with backslashes, so the result starts like {value}.
+ */
+export function quoteToken(value: string, quote?: string) {
+  if (quote === "'") {
+    return quote + value.replace(/'/g, `'\\''`) + quote;
+  }
+  if (quote === '"') {
+    return quote + value.replace(/(["\\])/g, '\\$1') + quote;
+  }
+  return value.replace(/([\s'"\\])/g, '\\$1');
+}
+
+/**
+ * A part of a line, delimited by operators (see `splitOperators`).
+ */
+export interface CliLinePart {
+  /** Text of the part, trimmed. Empty if there's nothing between two operators. */
+  text: string;
+  /** Operator that ends the part. `undefined` for the last part. */
+  operator?: string;
+}
+
+/**
+ * Split {line} on every {operators} that is not quoted nor escaped.
+ * When multiple operators match at the same place, the longest one is used (`>>` before `>`).
+ *
+ * If {standalone} is set, operators must be separated from the rest by whitespace: `a|b` is a single part.
+ *
+ * Parts are trimmed, but empty parts are kept: callers decide if they're allowed.
+ */
+export function splitOperators(line: string, operators: string[], standalone = false) : CliLinePart[] {
+  const sorted = [...operators].sort((a, b) => b.length - a.length);
+  const parts: CliLinePart[] = [];
+  let current = '';
+  let quote: string | undefined;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    const operator = quote ? undefined : sorted.find(e => line.startsWith(e, i) && (
+      !standalone || (/^\s?$/.test(line[i - 1] ?? '') && /^\s?$/.test(line[i + e.length] ?? ''))
+    ));
+
+    if (char === '\\' && quote !== "'") {
+      current += char + (line[i + 1] ?? '');
+      i++;
+    }
+    else if (quote) {
+      if (char === quote) {
+        quote = undefined;
+      }
+      current += char;
+    }
+    else if (char === "'" || char === '"') {
+      quote = char;
+      current += char;
+    }
+    else if (operator) {
+      parts.push({ text: current.trim(), operator });
+      current = '';
+      i += operator.length - 1;
+    }
+    else {
+      current += char;
+    }
+  }
+
+  parts.push({ text: current.trim() });
+  return parts;
+}
@@ -0,0 +1,57 @@
+import assert from 'assert';
+import CliHelper, { CliVariables } from '.';
+
+// Run with: node build/variables.test.js
+
+function testExpand() {
+  const variables = new CliVariables({ HOME: '/home/john' });
+
+  variables.set('name', 'John Doe');
+  variables.set('id', 42);
+  variables.set('pie', { name: 'cake' });
+  variables.set('quote', `it's`);
+  variables.set('empty', '');
+
+  assert.strictEqual(variables.expand('get $id ${id}th'), 'get 42 42th');
+  // Values stay single words, readable
+  assert.strictEqual(variables.expand('hello $name'), `hello 'John Doe'`);
+  assert.strictEqual(variables.expand('show $pie'), `show '{"name":"cake"}'`);
+  assert.strictEqual(variables.expand('say $quote $empty'), `say 'it'\\''s' ''`);
+  assert.strictEqual(variables.expand('say "$name: \\"$quote\\""'), `say "John Doe: \\"it's\\""`);
+  // Single quotes, escapes and undefined variables are kept
+  assert.strictEqual(variables.expand(`'$name' \\$name $undefined pa$$word`), `'$name' \\$name $undefined pa$$word`);
+  assert.strictEqual(variables.expand('cd $HOME'), 'cd /home/john');
+
+  assert.throws(() => variables.set('1st', 'x'), /Invalid variable name/);
+  assert.strictEqual(variables.delete('name'), true);
+  assert.strictEqual(variables.has('name'), false);
+}
+
+async function testCommands() {
+  const cli = new CliHelper({ onNoMatch: 'Command not found.', headless: true });
+  cli.command('echo', rest => rest);
+  cli.command('words', (_rest, _stack, _matches, _validator_state, { tokens }) => tokens);
+  cli.command('pie', () => ({ name: 'cake' }));
+
+  await cli.execute('set name = "John Doe"');
+  assert.strictEqual((await cli.execute('echo $name ${name}')).value, `'John Doe' 'John Doe'`);
+  assert.deepStrictEqual((await cli.execute('words $name')).value, ['John Doe']);
+
+  // $_ is the result of the last command
+  await cli.execute('pie');
+  assert.deepStrictEqual((await cli.execute('words $_')).value, ['{"name":"cake"}']);
+
+  const raw = new CliHelper({ onNoMatch: 'Command not found.', headless: true, expandVariables: false });
+  raw.command('echo', rest => rest);
+  await raw.execute('set name = John');
+  assert.strictEqual((await raw.execute('echo $name')).value, '$name');
+}
+
+(async () => {
+  testExpand();
+  await testCommands();
+  console.log('Variables: all tests passed.');
+})().catch(e => {
+  console.error(e);
+  process.exit(1);
+});
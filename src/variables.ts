@@ -0,0 +1,122 @@
+import { quoteToken } from './tokenizer';
+
+const NAME = /^[A-Za-z_]\w*$/;
+const REFERENCE = /^\$(?:([A-Za-z_]\w*)|\{([A-Za-z_]\w*)\})/;
+
+/**
+ * Variables of a CLI (or a session), expanded in entered lines before commands are matched.
+ *
+ * `$name` and `${name}` are replaced by the value of the variable, as a single word.
+ * References inside single quotes, escaped with a backslash, or to undefined variables are left as-is.
+ * The special variable `_` holds the value returned by the last successful command.
+ */
+export class CliVariables {
+  protected variables = new Map<string, any>();
+
+  /**
+   * @param env Environment to read variables from when they are not defined (like `process.env`).
+   */
+  constructor(protected env?: { [name: string]: string | undefined }) {}
+
+  /**
+   * Defined variables, by name.
+   */
+  entries() : [string, any][] {
+    return [...this.variables];
+  }
+
+  has(name: string) {
+    return this.variables.has(name);
+  }
+
+  /**
+   * Value of variable {name}, or of the environment variable {name} if it is not defined.
+   */
+  get(name: string) : any {
+    if (this.variables.has(name)) {
+      return this.variables.get(name);
+    }
+    return this.env?.[name];
+  }
+
+  /**
+   * Define (or replace) variable {name}. Values that are not strings are written as JSON when expanded.
+   */
+  set(name: string, value: any) {
+    if (!NAME.test(name)) {
+      throw new Error(`Invalid variable name "${name}".`);
+    }
+    this.variables.set(name, value);
+  }
+
+  /**
+   * Remove variable {name}. Returns `false` if it does not exist.
+   */
+  delete(name: string) {
+    return this.variables.delete(name);
+  }
+
+  /**
+   * Text of variable {name}, as it is expanded. Throws if it is not defined.
+   */
+  text(name: string) : string {
+    const value = this.get(name);
+
+    if (value === undefined) {
+      throw new Error(`Variable ${name} is not defined.`);
+    }
+    return typeof value === 'string' ? value : JSON.stringify(value);
+  }
+
+  /**
+   * Replace the variable references of {line} by their value. References to undefined variables are kept.
+   */
+  expand(line: string) : string {
+    let expanded = '';
+    let quote: string | undefined;
+
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+
+      if (char === '\\' && quote !== "'") {
+        expanded += char + (line[i + 1] ?? '');
+        i++;
+      }
+      else if (quote === "'") {
+        if (char === quote) {
+          quote = undefined;
+        }
+        expanded += char;
+      }
+      else if (char === '"' || (char === "'" && !quote)) {
+        quote = quote ? undefined : char;
+        expanded += char;
+      }
+      else if (char === '$' && REFERENCE.test(line.slice(i))) {
+        const [reference, simple, braced] = REFERENCE.exec(line.slice(i))!;
+        const name = simple ?? braced;
+
+        // A `$` followed by a word can be part of an argument (password, pattern...)
+        if (this.get(name) === undefined) {
+          expanded += reference;
+        }
+        // The value stays a single word, whatever it contains
+        else if (quote) {
+          expanded += this.text(name).replace(/(["\\])/g, '\\$1');
+        }
+        else {
+          const value = this.text(name);
+
+          // Single quotes keep the value readable in the `rest` of commands (`'John Doe'`, `'{"id":1}'`)
+          expanded += !value ? "''" : /[\s'"\\]/.test(value) ? quoteToken(value, "'") : value;
+        }
+        i += reference.length - 1;
+      }
+      else {
+        expanded += char;
+      }
+    }
+
+    return expanded;
+  }
+}